@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // ネイティブ依存やブラウザ起動を含むパッケージはバンドルせずに読み込む
+  serverExternalPackages: ['playwright-core', 'better-sqlite3'],
 };
 
 export default nextConfig;
@@ -0,0 +1,27 @@
+import { createServer } from 'http';
+import next from 'next';
+import { attachWebSocketServer } from '@/lib/server/wsServer';
+
+/**
+ * Next.js と WebSocket サーバーを同一ポートで起動するカスタムサーバー
+ * API Routes では WebSocket のアップグレードを扱えないため、ここで /api/ws を処理する
+ */
+
+const dev = !process.argv.includes('--production');
+const hostname = process.env.HOSTNAME || 'localhost';
+const port = Number(process.env.PORT || 3000);
+
+const app = next({ dev, hostname, port });
+const handle = app.getRequestHandler();
+
+app.prepare().then(() => {
+  const server = createServer((req, res) => {
+    handle(req, res);
+  });
+
+  attachWebSocketServer(server, app.getUpgradeHandler());
+
+  server.listen(port, () => {
+    console.log(`> Ready on http://${hostname}:${port} (${dev ? 'development' : 'production'})`);
+  });
+});
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { describeQueue, moveQueuedTask, removeQueuedTask } from '@/lib/agent/agentSessions';
+import { getLogger } from '@/lib/logging/logger';
+import { isValidSessionId } from '@/lib/utils/sessionId';
+
+/**
+ * セッションのタスクキューを取得するエンドポイント
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const sessionId = req.nextUrl.searchParams.get('sessionId');
+    
+    if (!isValidSessionId(sessionId)) {
+      return NextResponse.json({ error: 'A valid session ID is required' }, { status: 400 });
+    }
+    
+    return NextResponse.json({ sessionId, ...describeQueue(sessionId) });
+  } catch (error) {
+    getLogger().error('Error in queue API', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * キュー内のタスクの順番を変更するエンドポイント
+ * position は 1 始まりの移動先
+ */
+export async function PATCH(req: NextRequest) {
+  try {
+    const { sessionId, id, position } = await req.json();
+    
+    if (!isValidSessionId(sessionId) || !id) {
+      return NextResponse.json({ error: 'A valid session ID and queued task ID are required' }, { status: 400 });
+    }
+    
+    if (!Number.isInteger(position) || position < 1) {
+      return NextResponse.json({ error: 'Position must be a positive integer' }, { status: 400 });
+    }
+    
+    if (!moveQueuedTask(sessionId, id, position)) {
+      return NextResponse.json({ error: 'Queued task not found' }, { status: 404 });
+    }
+    
+    return NextResponse.json({ sessionId, ...describeQueue(sessionId) });
+  } catch (error) {
+    getLogger().error('Error in queue API', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * キューからタスクを取り除くエンドポイント
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    const sessionId = req.nextUrl.searchParams.get('sessionId');
+    const id = req.nextUrl.searchParams.get('id');
+    
+    if (!isValidSessionId(sessionId) || !id) {
+      return NextResponse.json({ error: 'A valid session ID and queued task ID are required' }, { status: 400 });
+    }
+    
+    if (!removeQueuedTask(sessionId, id)) {
+      return NextResponse.json({ error: 'Queued task not found' }, { status: 404 });
+    }
+    
+    return NextResponse.json({ sessionId, ...describeQueue(sessionId) });
+  } catch (error) {
+    getLogger().error('Error in queue API', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,41 +1,96 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { AgentLoop } from '@/lib/agent/AgentLoop';
+import { ApprovalDecision } from '@/lib/agent/AgentTypes';
+import { enqueueTask, getAgent, getSessionUsage, resumeSessionTask, updateSessionSettings } from '@/lib/agent/agentSessions';
+import { getLogger } from '@/lib/logging/logger';
+import { ApprovalThreshold } from '@/lib/tools/PolicyEngine';
+import { normalizeAttachments } from '@/lib/tools/uploads';
+import { isValidSessionId } from '@/lib/utils/sessionId';
 
-// エージェントのインスタンスを保持する辞書
-const agentInstances: Record<string, AgentLoop> = {};
+const APPROVAL_THRESHOLDS: ApprovalThreshold[] = ['low', 'medium', 'high', 'critical', 'never'];
+const APPROVAL_DECISIONS: ApprovalDecision[] = ['approve', 'deny', 'always-allow'];
 
 /**
  * エージェントの初期化・タスク送信のエンドポイント
+ * タスクはセッションのキューに追加され、前のタスクの終了後に順番に実行される
  */
 export async function POST(req: NextRequest) {
   try {
-    const { sessionId, task } = await req.json();
+    const body = await req.json();
+    const { sessionId, task, action, attachments } = body;
     
-    if (!sessionId) {
-      return NextResponse.json({ error: 'Session ID is required' }, { status: 400 });
+    if (!isValidSessionId(sessionId)) {
+      return NextResponse.json({ error: 'A valid session ID is required' }, { status: 400 });
+    }
+    
+    // タスクの制御（一時停止・再開・中止・質問への回答・操作の承認）
+    if (action) {
+      return handleControlAction(sessionId, action, body);
     }
     
     if (!task) {
       return NextResponse.json({ error: 'Task is required' }, { status: 400 });
     }
     
-    // 既存のエージェントがあれば取得、なければ新規作成
-    let agent = agentInstances[sessionId];
-    if (!agent) {
-      agent = new AgentLoop();
-      agentInstances[sessionId] = agent;
-    }
+    // タスクをキューに追加する（実行中のタスクがなく空きがあればすぐに開始される）
+    // 添付ファイルは /api/agent/upload でアップロード済みのものだけを受け付ける
+    const { item, position } = enqueueTask(sessionId, task, normalizeAttachments(sessionId, attachments));
     
-    // タスクを開始する（非同期）
-    agent.startTask(task);
+    if (position > 0) {
+      return NextResponse.json({ message: 'Task queued', sessionId, queuedTaskId: item.id, position }, { status: 202 });
+    }
     
-    return NextResponse.json({ message: 'Task started', sessionId });
+    return NextResponse.json({ message: 'Task started', sessionId, queuedTaskId: item.id, position });
   } catch (error) {
-    console.error('Error in agent API:', error);
+    getLogger().error('Error in agent API', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
 
+/**
+ * 実行中タスクへの制御アクションを処理する
+ */
+function handleControlAction(sessionId: string, action: string, body: Record<string, any>) {
+  const agent = getAgent(sessionId);
+  
+  if (!agent) {
+    return NextResponse.json({ error: 'Agent not found for this session' }, { status: 404 });
+  }
+  
+  let applied: boolean;
+  switch (action) {
+    case 'pause':
+      applied = agent.pause();
+      break;
+    case 'resume':
+      // 一時停止中のタスク、または中断したタスクのチェックポイントからの再開
+      applied = resumeSessionTask(sessionId);
+      break;
+    case 'cancel':
+      applied = agent.cancel();
+      break;
+    case 'answer':
+      if (!body.questionId || typeof body.answer !== 'string') {
+        return NextResponse.json({ error: 'Question ID and answer are required' }, { status: 400 });
+      }
+      applied = agent.answerQuestion(body.questionId, body.answer);
+      break;
+    case 'approval':
+      if (!body.requestId || !APPROVAL_DECISIONS.includes(body.decision)) {
+        return NextResponse.json({ error: `Request ID and a decision (${APPROVAL_DECISIONS.join(', ')}) are required` }, { status: 400 });
+      }
+      applied = agent.decideApproval(body.requestId, body.decision);
+      break;
+    default:
+      return NextResponse.json({ error: `Unknown action: ${action}` }, { status: 400 });
+  }
+  
+  if (!applied) {
+    return NextResponse.json({ error: `Cannot ${action} in the current state`, status: agent.getState().status }, { status: 409 });
+  }
+  
+  return NextResponse.json({ message: `Action "${action}" accepted`, sessionId });
+}
+
 /**
  * エージェントの状態取得のエンドポイント
  */
@@ -43,11 +98,11 @@ export async function GET(req: NextRequest) {
   try {
     const sessionId = req.nextUrl.searchParams.get('sessionId');
     
-    if (!sessionId) {
-      return NextResponse.json({ error: 'Session ID is required' }, { status: 400 });
+    if (!isValidSessionId(sessionId)) {
+      return NextResponse.json({ error: 'A valid session ID is required' }, { status: 400 });
     }
     
-    const agent = agentInstances[sessionId];
+    const agent = getAgent(sessionId);
     
     if (!agent) {
       return NextResponse.json({ error: 'Agent not found for this session' }, { status: 404 });
@@ -55,9 +110,50 @@ export async function GET(req: NextRequest) {
     
     const state = agent.getState();
     
-    return NextResponse.json(state);
+    // state.usage は実行中（または最後）のタスクの使用量、sessionUsage はセッション全体の合計
+    return NextResponse.json({ ...state, sessionUsage: getSessionUsage(sessionId) });
+  } catch (error) {
+    getLogger().error('Error in agent API', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * セッション設定のエンドポイント
+ * - modelName: 実行中のタスクには影響せず、次のタスクから適用される
+ * - approvalThreshold: 承認が必要になる危険度のしきい値（即座に適用される）
+ */
+export async function PATCH(req: NextRequest) {
+  try {
+    const { sessionId, modelName, approvalThreshold } = await req.json();
+    
+    if (!isValidSessionId(sessionId)) {
+      return NextResponse.json({ error: 'A valid session ID is required' }, { status: 400 });
+    }
+    
+    if (modelName === undefined && approvalThreshold === undefined) {
+      return NextResponse.json({ error: 'Model name or approval threshold is required' }, { status: 400 });
+    }
+    
+    if (modelName !== undefined && (!modelName || typeof modelName !== 'string')) {
+      return NextResponse.json({ error: 'Model name must be a non-empty string' }, { status: 400 });
+    }
+    
+    if (approvalThreshold !== undefined && !APPROVAL_THRESHOLDS.includes(approvalThreshold)) {
+      return NextResponse.json({ error: `Approval threshold must be one of ${APPROVAL_THRESHOLDS.join(', ')}` }, { status: 400 });
+    }
+    
+    // 既存のエージェントがあれば取得、なければ新規作成して設定を保存する
+    const agent = updateSessionSettings(sessionId, { modelName, approvalThreshold });
+    
+    return NextResponse.json({
+      message: 'Session settings updated',
+      sessionId,
+      nextModelName: agent.getNextModelName(),
+      approvalThreshold: agent.getApprovalThreshold(),
+    });
   } catch (error) {
-    console.error('Error in agent API:', error);
+    getLogger().error('Error in agent API', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
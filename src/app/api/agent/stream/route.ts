@@ -0,0 +1,97 @@
+import { NextRequest } from 'next/server';
+import { subscribeToSession } from '@/lib/agent/agentSessions';
+import { getMetrics } from '@/lib/metrics/agentMetrics';
+import { isValidSessionId } from '@/lib/utils/sessionId';
+
+// ストリーミングのためキャッシュせず Node.js ランタイムで実行する
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// 接続維持用コメントの送信間隔（ミリ秒）
+const KEEP_ALIVE_INTERVAL = 15 * 1000;
+
+/**
+ * Server-Sent Events によるエージェント状態のストリーム
+ * WebSocket が使えない環境向けのフォールバックで、WebSocket と同じペイロードを配信する
+ * 再接続時は Last-Event-ID ヘッダー（または lastEventId クエリ）以降のイベントを再送する
+ */
+export function GET(req: NextRequest) {
+  const sessionId = req.nextUrl.searchParams.get('sessionId');
+
+  if (!isValidSessionId(sessionId)) {
+    return new Response('A valid session ID is required', { status: 400 });
+  }
+
+  const lastEventIdRaw = req.headers.get('last-event-id') ?? req.nextUrl.searchParams.get('lastEventId');
+  const lastEventId = lastEventIdRaw && !Number.isNaN(Number(lastEventIdRaw)) ? Number(lastEventIdRaw) : undefined;
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let unsubscribe: (() => void) | null = null;
+      let keepAlive: NodeJS.Timeout | null = null;
+      getMetrics().connectedClients.inc({ transport: 'sse' });
+
+      // 書き込みの失敗・切断・キャンセルのいずれからも呼ばれるため1度だけ実行する
+      // （購読直後の再送中に書き込みが失敗した場合は、購読の完了後に登録を解除する）
+      let closed = false;
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        if (keepAlive) clearInterval(keepAlive);
+        unsubscribe?.();
+        getMetrics().connectedClients.dec({ transport: 'sse' });
+      };
+
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // クライアント切断後の書き込みは無視する
+          cleanup();
+        }
+      };
+
+      // 切断時に EventSource が自動再接続するまでの待ち時間
+      write('retry: 3000\n\n');
+
+      unsubscribe = subscribeToSession(
+        sessionId,
+        (event) => {
+          write(`id: ${event.id}\ndata: ${JSON.stringify({ ...event.payload, id: event.id })}\n\n`);
+        },
+        lastEventId,
+      );
+      if (closed) {
+        unsubscribe();
+        return;
+      }
+
+      keepAlive = setInterval(() => write(': keep-alive\n\n'), KEEP_ALIVE_INTERVAL);
+
+      req.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // 既に閉じられている
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { toTaskRecord } from '@/lib/agent/taskContext';
+import { getLogger } from '@/lib/logging/logger';
+import { getSessionStore } from '@/lib/storage/SessionStore';
+import { isValidSessionId } from '@/lib/utils/sessionId';
+
+/**
+ * セッションで実行したタスクの一覧を古い順に取得するエンドポイント
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const sessionId = req.nextUrl.searchParams.get('sessionId');
+    
+    if (!isValidSessionId(sessionId)) {
+      return NextResponse.json({ error: 'A valid session ID is required' }, { status: 400 });
+    }
+    
+    const store = getSessionStore();
+    
+    if (!store.getSession(sessionId)) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    
+    const tasks = store.listTasks(sessionId).map(task => {
+      const record = toTaskRecord({ ...task.state, taskId: task.id }, task.updatedAt);
+      return {
+        id: task.id,
+        task: task.task,
+        status: task.status,
+        progress: task.progress,
+        error: task.error,
+        plan: task.state.plan,
+        steps: record.steps,
+        files: record.files,
+        usage: task.state.usage ?? null,
+        createdAt: task.createdAt,
+        updatedAt: task.updatedAt,
+      };
+    });
+    
+    return NextResponse.json({ sessionId, tasks });
+  } catch (error) {
+    getLogger().error('Error in tasks API', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
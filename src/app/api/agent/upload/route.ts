@@ -0,0 +1,106 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrCreateAgent } from '@/lib/agent/agentSessions';
+import { getLogger } from '@/lib/logging/logger';
+import { MAX_UPLOAD_FILES, MAX_UPLOAD_REQUEST_SIZE, UPLOAD_DIR, checkUpload, saveUpload } from '@/lib/tools/uploads';
+import { resolveInWorkspace } from '@/lib/tools/workspace';
+import { getMimeType } from '@/lib/utils/mimeTypes';
+import { isValidSessionId } from '@/lib/utils/sessionId';
+
+/**
+ * タスクの入力とするファイルをセッションのワークスペースにアップロードするエンドポイント
+ * multipart/form-data の sessionId と files（複数可）を受け取り、添付ファイルの情報を返す
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // 本文を読み込む前に、宣言されたサイズで大きすぎるリクエストを拒否する
+    const contentLength = req.headers.get('content-length');
+    if (contentLength === null) {
+      return NextResponse.json({ error: 'Content-Length is required' }, { status: 411 });
+    }
+    if (!(Number(contentLength) <= MAX_UPLOAD_REQUEST_SIZE)) {
+      return NextResponse.json({ error: `Request exceeds the maximum size of ${MAX_UPLOAD_REQUEST_SIZE} bytes` }, { status: 413 });
+    }
+    
+    let form: FormData;
+    try {
+      form = await req.formData();
+    } catch {
+      return NextResponse.json({ error: 'Multipart form data is required' }, { status: 400 });
+    }
+    
+    const sessionId = form.get('sessionId');
+    const files = form.getAll('files').filter((value): value is File => value instanceof File);
+    
+    if (!isValidSessionId(sessionId)) {
+      return NextResponse.json({ error: 'A valid session ID is required' }, { status: 400 });
+    }
+    
+    if (files.length === 0) {
+      return NextResponse.json({ error: 'At least one file is required' }, { status: 400 });
+    }
+    
+    if (files.length > MAX_UPLOAD_FILES) {
+      return NextResponse.json({ error: `Too many files (maximum ${MAX_UPLOAD_FILES})` }, { status: 400 });
+    }
+    
+    // 1つでも受け付けられないファイルがあれば何も保存しない
+    for (const file of files) {
+      const rejection = checkUpload(file);
+      if (rejection) {
+        return NextResponse.json({ error: rejection.error }, { status: rejection.status });
+      }
+    }
+    
+    // セッションを登録し、期限切れのセッションと共にワークスペースが削除されるようにする
+    getOrCreateAgent(sessionId);
+    
+    const attachments = [];
+    for (const file of files) {
+      attachments.push(await saveUpload(sessionId, file));
+    }
+    
+    return NextResponse.json({ sessionId, attachments }, { status: 201 });
+  } catch (error) {
+    getLogger().error('Error in upload API', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * アップロードしたファイルの内容を返すエンドポイント
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const sessionId = req.nextUrl.searchParams.get('sessionId');
+    const requestedPath = req.nextUrl.searchParams.get('path');
+    const relativePath = requestedPath ? path.posix.normalize(requestedPath) : '';
+    
+    if (!isValidSessionId(sessionId) || !relativePath.startsWith(`${UPLOAD_DIR}/`)) {
+      return NextResponse.json({ error: 'Session ID and an uploaded file path are required' }, { status: 400 });
+    }
+    
+    let content: Buffer;
+    try {
+      content = await fs.readFile(await resolveInWorkspace(sessionId, relativePath));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return NextResponse.json({ error: 'File not found' }, { status: 404 });
+      }
+      throw error;
+    }
+    
+    return new Response(new Uint8Array(content), {
+      headers: {
+        'Content-Type': getMimeType(relativePath),
+        'Content-Length': String(content.length),
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(path.posix.basename(relativePath))}`,
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    getLogger().error('Error in upload API', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLogger } from '@/lib/logging/logger';
+import { getArtifactStore } from '@/lib/storage/ArtifactStore';
+
+// ブラウザ内で表示してよい Content-Type（HTML・SVG などスクリプトを含みうるものはダウンロードさせる）
+const INLINE_TYPES = [
+  'text/plain',
+  'text/markdown',
+  'text/csv',
+  'application/json',
+  'application/pdf',
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+];
+
+/**
+ * 成果物の内容を返すエンドポイント
+ * 既定ではブラウザ内で表示し（表示できない種類はダウンロード）、?download=1 でダウンロードさせる
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const store = getArtifactStore();
+    const artifact = store.get(id);
+    
+    if (!artifact) {
+      return NextResponse.json({ error: 'Artifact not found' }, { status: 404 });
+    }
+    
+    let content: Buffer;
+    try {
+      content = await store.read(artifact);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return NextResponse.json({ error: 'Artifact content not found' }, { status: 404 });
+      }
+      throw error;
+    }
+    
+    const inline = req.nextUrl.searchParams.get('download') !== '1'
+      && INLINE_TYPES.includes(artifact.mimeType.split(';')[0]);
+    const filename = encodeURIComponent(artifact.name);
+    
+    return new Response(new Uint8Array(content), {
+      headers: {
+        'Content-Type': artifact.mimeType,
+        'Content-Length': String(content.length),
+        'Content-Disposition': `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${filename}`,
+        'X-Content-Type-Options': 'nosniff',
+        'Content-Security-Policy': 'sandbox',
+        'Cache-Control': 'private, max-age=3600',
+      },
+    });
+  } catch (error) {
+    getLogger().error('Error in artifact API', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLogger } from '@/lib/logging/logger';
+import { getArtifactStore } from '@/lib/storage/ArtifactStore';
+import { getSessionStore } from '@/lib/storage/SessionStore';
+import { isValidSessionId } from '@/lib/utils/sessionId';
+
+/**
+ * セッションのタスクで保存した成果物の一覧を古い順に取得するエンドポイント
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const sessionId = req.nextUrl.searchParams.get('sessionId');
+    
+    if (!isValidSessionId(sessionId)) {
+      return NextResponse.json({ error: 'A valid session ID is required' }, { status: 400 });
+    }
+    
+    if (!getSessionStore().getSession(sessionId)) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    
+    const artifacts = getArtifactStore().list(sessionId).map(artifact => ({
+      ...artifact,
+      url: `/api/artifacts/${artifact.id}`,
+    }));
+    
+    return NextResponse.json({ sessionId, artifacts });
+  } catch (error) {
+    getLogger().error('Error in artifacts API', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
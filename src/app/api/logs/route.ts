@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { LogLevel, getLogger, isDeveloperMode } from '@/lib/logging/logger';
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * 記録されたログを絞り込んで取得するエンドポイント（開発者モードでのみ利用できる）
+ * after に前回取得した最後のログの通し番号（seq）を指定すると、それより後に記録されたログを古いものから limit 件返す
+ */
+export async function GET(req: NextRequest) {
+  if (!isDeveloperMode()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  try {
+    const params = req.nextUrl.searchParams;
+    const level = params.get('level');
+    const after = params.get('after');
+    const limit = params.get('limit');
+
+    if (level && !LOG_LEVELS.includes(level as LogLevel)) {
+      return NextResponse.json({ error: `Level must be one of: ${LOG_LEVELS.join(', ')}` }, { status: 400 });
+    }
+    if ((after && !Number.isFinite(Number(after))) || (limit && !(Number(limit) > 0))) {
+      return NextResponse.json({ error: 'after and limit must be numbers' }, { status: 400 });
+    }
+
+    const entries = await getLogger().query({
+      sessionId: params.get('sessionId') || undefined,
+      taskId: params.get('taskId') || undefined,
+      level: (level as LogLevel) || undefined,
+      search: params.get('q') || undefined,
+      after: after ? Number(after) : undefined,
+      limit: limit ? Number(limit) : undefined,
+    });
+
+    return NextResponse.json({ entries });
+  } catch (error) {
+    getLogger().error('Error in logs API', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
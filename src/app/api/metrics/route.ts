@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { countSessions } from '@/lib/agent/agentSessions';
+import { getLogger } from '@/lib/logging/logger';
+import { getMetrics } from '@/lib/metrics/agentMetrics';
+
+// メトリクスは取得のたびに現在の値を返す
+export const dynamic = 'force-dynamic';
+
+/**
+ * Prometheus 形式でエージェントサーバーのメトリクスを返すエンドポイント
+ * AGENT_METRICS_TOKEN を設定した場合は Authorization: Bearer <token> を要求する
+ */
+export async function GET(req: NextRequest) {
+  const token = process.env.AGENT_METRICS_TOKEN;
+  if (token && req.headers.get('authorization') !== `Bearer ${token}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const metrics = getMetrics();
+    const { sessions, runningTasks, queuedTasks } = countSessions();
+    metrics.activeSessions.set({}, sessions);
+    metrics.runningTasks.set({}, runningTasks);
+    metrics.queuedTasks.set({}, queuedTasks);
+
+    return new Response(metrics.registry.render(), {
+      headers: {
+        'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    getLogger().error('Error in metrics API', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
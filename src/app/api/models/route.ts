@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listOllamaModels } from '@/lib/llm/ollamaModels';
+import { getLogger } from '@/lib/logging/logger';
+
+/**
+ * 利用可能なモデル一覧取得のエンドポイント
+ * ?refresh=1 でキャッシュを無視して再取得する
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const refresh = req.nextUrl.searchParams.get('refresh') === '1';
+    const result = await listOllamaModels(refresh);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    getLogger().error('Error in models API', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,83 +1,20 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { AgentLoop } from '@/lib/agent/AgentLoop';
-
-// WebSocketセッションを保持する辞書
-const wsSessions: Record<string, {
-  socket: WebSocket;
-  agent: AgentLoop;
-}> = {};
+import { NextRequest } from 'next/server';
+import { isValidSessionId } from '@/lib/utils/sessionId';
 
 /**
- * WebSocket接続のハンドラ
- * クライアントとのリアルタイム通信を確立する
+ * WebSocket接続のエンドポイント
+ * アップグレード要求はカスタムサーバー（server.ts → src/lib/server/wsServer.ts）が
+ * Next.js より先に処理するため、ここに到達するのは通常の HTTP リクエストのみ
  */
 export function GET(req: NextRequest) {
-  try {
-    const sessionId = req.nextUrl.searchParams.get('sessionId');
-    
-    if (!sessionId) {
-      return new Response('Session ID is required', { status: 400 });
-    }
-    
-    const upgradeHeader = req.headers.get('Upgrade');
-    if (upgradeHeader !== 'websocket') {
-      return new Response('Expected websocket upgrade', { status: 400 });
-    }
-    
-    // WebSocketのセットアップ
-    // Note: 実際のNext.jsではこのような直接実装は動作しません
-    // WebSocketサーバーを設定するには、別の方法が必要です
-    // これはAPI Routes経由でWebSocketを使用するための概念的な実装です
-    
-    // 以下は擬似コード
-    /*
-    const { socket, response } = upgradeWebSocketResponse(req);
-    
-    // 既存のエージェントがない場合は作成
-    if (!wsSessions[sessionId]) {
-      const agent = new AgentLoop();
-      wsSessions[sessionId] = { socket, agent };
-      
-      // エージェントの状態更新をクライアントに送信
-      agent.onStateUpdate((state) => {
-        socket.send(JSON.stringify({
-          type: 'state-update',
-          data: state
-        }));
-      });
-    } else {
-      // 既存のエージェントに新しいソケットをセット
-      wsSessions[sessionId].socket = socket;
-    }
-    
-    // WebSocketメッセージのハンドリング
-    socket.addEventListener('message', (event) => {
-      try {
-        const message = JSON.parse(event.data);
-        
-        if (message.type === 'start-task') {
-          wsSessions[sessionId].agent.startTask(message.task);
-        }
-      } catch (error) {
-        console.error('WebSocket message error:', error);
-      }
-    });
-    
-    // 接続切れのハンドリング
-    socket.addEventListener('close', () => {
-      // 切断時の処理（エージェントは維持）
-      console.log(`WebSocket connection closed for session ${sessionId}`);
-    });
-    
-    return response;
-    */
-    
-    // 実際には、Next.jsのAPI Routesでは直接WebSocketを扱えないため
-    // Socket.io、Pusher、またはVercelのEdge Functionsなどの
-    // 別のソリューションを使用する必要があります
-    return new Response('WebSocket endpoint (this is a placeholder)', { status: 200 });
-  } catch (error) {
-    console.error('Error in WebSocket route:', error);
-    return new Response('Internal server error', { status: 500 });
+  const sessionId = req.nextUrl.searchParams.get('sessionId');
+  
+  if (!isValidSessionId(sessionId)) {
+    return new Response('A valid session ID is required', { status: 400 });
   }
+  
+  return new Response('Expected websocket upgrade (start the app with `npm run dev` to enable WebSocket)', {
+    status: 426,
+    headers: { Upgrade: 'websocket' },
+  });
 }
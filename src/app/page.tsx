@@ -1,10 +1,129 @@
 "use client";
 
-import { useState, useEffect, FormEvent } from "react";
+import { useState, useEffect, useRef, FormEvent, ReactNode } from "react";
 import { v4 as uuidv4 } from 'uuid';
 import { AgentState } from "@/lib/agent/AgentLoop";
+import { AgentQuestion, AgentStatus, ApprovalDecision, Artifact, Attachment, MessageDelta, PlanChange, PlanStepStatus } from "@/lib/agent/AgentTypes";
+import { QueuedTask } from "@/lib/agent/TaskQueue";
+import { formatEta } from "@/lib/agent/progress";
+import { ModelInfo, ModelListResult } from "@/lib/llm/ollamaModels";
+import { LogEntry, LogLevel } from "@/lib/logging/logger";
+import { parseCsv } from "@/lib/utils/csv";
+import { applyPatch } from "@/lib/utils/jsonPatch";
+import { MarkdownBlock, MarkdownInline, parseMarkdown } from "@/lib/utils/markdown";
+import { SavedSession, loadCurrentSessionId, loadSavedSessions, recordSavedSession, saveCurrentSessionId } from "@/lib/utils/savedSessions";
 import { getWebSocketManager } from "@/lib/utils/websocket";
 
+// 計画のステップの状態の表示
+const STEP_STATUS_LABELS: Record<PlanStepStatus, { label: string; icon: string; className: string }> = {
+  pending: { label: "未着手", icon: "○", className: "text-gray-500" },
+  running: { label: "処理中", icon: "◐", className: "text-blue-600 font-semibold" },
+  done: { label: "完了", icon: "✓", className: "text-green-600" },
+  failed: { label: "失敗", icon: "✗", className: "text-red-500" },
+  skipped: { label: "スキップ", icon: "－", className: "text-gray-400 line-through" },
+};
+
+// モデルの出力を生成したフェーズの表示
+const PHASE_LABELS: Partial<Record<AgentStatus, string>> = {
+  planning: "計画",
+  executing: "実行",
+  observing: "観察",
+  updating: "更新",
+};
+
+// プレビューで表示するテキストの最大文字数・CSV の最大行数
+const MAX_PREVIEW_LENGTH = 100000;
+const MAX_PREVIEW_ROWS = 200;
+
+// ログの重要度の表示
+const LOG_LEVEL_CLASSES: Record<LogLevel, string> = {
+  debug: "text-gray-400",
+  info: "text-gray-700",
+  warn: "text-yellow-600",
+  error: "text-red-600",
+};
+// ログを取得し直す間隔（ミリ秒）
+const LOG_POLL_INTERVAL = 3000;
+
+/**
+ * バイト数を表示用の文字列にする
+ */
+function formatSize(size: number): string {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Markdown の行内の要素を描画する
+ */
+function renderMarkdownInline(nodes: MarkdownInline[]): ReactNode[] {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case "text":
+        return node.text;
+      case "code":
+        return <code key={i} className="px-1 rounded bg-gray-100 font-mono text-xs">{node.text}</code>;
+      case "strong":
+        return <strong key={i}>{renderMarkdownInline(node.children)}</strong>;
+      case "em":
+        return <em key={i}>{renderMarkdownInline(node.children)}</em>;
+      case "link":
+        return (
+          <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+            {renderMarkdownInline(node.children)}
+          </a>
+        );
+    }
+  });
+}
+
+// 見出しの大きさ
+const HEADING_CLASSES = ["text-xl", "text-lg", "text-base", "text-sm", "text-sm", "text-sm"];
+
+/**
+ * Markdown のブロック要素を描画する
+ */
+function renderMarkdown(blocks: MarkdownBlock[]): ReactNode[] {
+  return blocks.map((block, i) => {
+    switch (block.type) {
+      case "heading":
+        return <p key={i} className={`font-bold ${HEADING_CLASSES[block.level - 1]}`}>{renderMarkdownInline(block.children)}</p>;
+      case "paragraph":
+        return <p key={i} className="whitespace-pre-wrap">{renderMarkdownInline(block.children)}</p>;
+      case "code":
+        return <pre key={i} className="p-2 rounded bg-gray-100 text-xs overflow-x-auto">{block.text}</pre>;
+      case "list": {
+        const items = block.items.map((item, j) => <li key={j}>{renderMarkdownInline(item)}</li>);
+        return block.ordered
+          ? <ol key={i} className="list-decimal pl-6">{items}</ol>
+          : <ul key={i} className="list-disc pl-6">{items}</ul>;
+      }
+      case "quote":
+        return <blockquote key={i} className="pl-3 border-l-4 text-gray-600 space-y-2">{renderMarkdown(block.children)}</blockquote>;
+      case "table":
+        return (
+          <table key={i} className="text-xs border-collapse">
+            <thead>
+              <tr className="bg-gray-100">
+                {block.header.map((cell, j) => <th key={j} className="border px-2 py-1">{renderMarkdownInline(cell)}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, j) => (
+                <tr key={j}>
+                  {row.map((cell, k) => <td key={k} className="border px-2 py-1">{renderMarkdownInline(cell)}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        );
+      case "rule":
+        return <hr key={i} />;
+    }
+  });
+}
+
 // 初期メッセージ
 const initialMessages = [
   {
@@ -16,50 +135,236 @@ const initialMessages = [
 ];
 
 export default function Home() {
-  // セッションID
-  const [sessionId] = useState<string>(() => uuidv4());
+  // セッションID（再読み込み後も同じセッションを使うため、マウント時に保存済みのIDを読み込む）
+  const [sessionId, setSessionId] = useState("");
+  // このブラウザで使った過去のセッション
+  const [savedSessions, setSavedSessions] = useState<SavedSession[]>([]);
   
   // メッセージ状態
   const [messages, setMessages] = useState<any[]>(initialMessages);
   const [input, setInput] = useState("");
+  // 次のメッセージに添付するファイル
+  const [attachedFiles, setAttachedFiles] = useState<File[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   
   // エージェント状態
   const [agentState, setAgentState] = useState<AgentState | null>(null);
+  // 差分の適用元となる最新の状態とその版（リスナー内から同期的に参照する）
+  const stateRef = useRef<{ state: AgentState; version: number } | null>(null);
+  
+  // 直近の計画の変更で追加・移動されたステップ
+  const [changedStepIds, setChangedStepIds] = useState<Set<string>>(new Set());
+  
+  // セッションの成果物とプレビュー中の成果物
+  const [artifacts, setArtifacts] = useState<(Artifact & { url: string })[]>([]);
+  const [preview, setPreview] = useState<{ artifact: Artifact & { url: string }; text: string | null } | null>(null);
+  
+  // 実行待ちのタスク
+  const [queue, setQueue] = useState<(QueuedTask & { position: number })[]>([]);
   
   // WebSocket状態
   const [wsConnected, setWsConnected] = useState(false);
+  const [transport, setTransport] = useState<'websocket' | 'sse'>('websocket');
+  
+  // モデル選択状態
+  const [models, setModels] = useState<ModelInfo[]>([]);
+  const [modelsError, setModelsError] = useState<string | null>(null);
+  const [selectedModel, setSelectedModel] = useState("");
+  
+  // ログビューア（開発者モードでのみ表示する）
+  const [logsAvailable, setLogsAvailable] = useState(false);
+  const [showLogs, setShowLogs] = useState(false);
+  const [logEntries, setLogEntries] = useState<LogEntry[]>([]);
+  const [logFilter, setLogFilter] = useState<{ level: LogLevel; search: string; sessionOnly: boolean }>({
+    level: "info",
+    search: "",
+    sessionOnly: true,
+  });
+  
+  // 保存済みのセッションを復元する（なければ新しいセッションを始める）
+  useEffect(() => {
+    setSavedSessions(loadSavedSessions());
+    setSessionId(loadCurrentSessionId() ?? uuidv4());
+  }, []);
+  
+  // 使用中のセッションを保存する
+  useEffect(() => {
+    if (sessionId) saveCurrentSessionId(sessionId);
+  }, [sessionId]);
+  
+  // モデル一覧を取得する
+  useEffect(() => {
+    const loadModels = async () => {
+      try {
+        const response = await fetch("/api/models");
+        const result: ModelListResult = await response.json();
+        setModels(result.models);
+        setModelsError(result.available ? null : result.error);
+      } catch (error) {
+        console.error("Error loading models:", error);
+        setModelsError("モデル一覧を取得できませんでした");
+      }
+    };
+    
+    loadModels();
+  }, []);
+  
+  // ログを閲覧できるか確認する（開発者モードでなければ 404 が返る）
+  useEffect(() => {
+    fetch("/api/logs?limit=1")
+      .then((response) => setLogsAvailable(response.ok))
+      .catch(() => setLogsAvailable(false));
+  }, []);
+  
+  // ログビューアの表示中はログを定期的に取得し直す
+  useEffect(() => {
+    if (!showLogs || !sessionId) return;
+    
+    const loadLogs = async () => {
+      try {
+        const params = new URLSearchParams({ level: logFilter.level });
+        if (logFilter.search) params.set("q", logFilter.search);
+        if (logFilter.sessionOnly) params.set("sessionId", sessionId);
+        const response = await fetch(`/api/logs?${params}`);
+        if (!response.ok) return;
+        const result = await response.json();
+        setLogEntries(result.entries);
+      } catch (error) {
+        console.error("Error loading logs:", error);
+      }
+    };
+    
+    loadLogs();
+    const timer = setInterval(loadLogs, LOG_POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [showLogs, logFilter, sessionId]);
+  
+  // 過去のタスクとその成果物を取得する
+  useEffect(() => {
+    if (!sessionId) return;
+    
+    // 切り替え前のセッションの応答は反映しない
+    let current = true;
+    loadSessionHistory(() => current);
+    return () => {
+      current = false;
+    };
+  }, [sessionId]);
   
   // 初期化処理
   useEffect(() => {
+    if (!sessionId) return;
+    
     // WebSocketマネージャーを取得
     const wsManager = getWebSocketManager(sessionId);
     
     // 状態変更リスナーを登録
     const removeStateListener = wsManager.addStateChangeListener((state) => {
       setWsConnected(state.isConnected);
+      setTransport(state.transport);
     });
     
     // メッセージリスナーを登録
     const removeMessageListener = wsManager.addMessageListener((payload) => {
-      if (payload.type === 'state-update') {
-        setAgentState(payload.data);
+      if (payload.type === 'state-snapshot' || payload.type === 'state-patch') {
+        const previous = stateRef.current;
+        let state: AgentState;
+        if (payload.type === 'state-snapshot') {
+          state = payload.data.state;
+        } else if (previous && payload.data.version === previous.version + 1) {
+          state = applyPatch(previous.state, payload.data.operations);
+        } else {
+          // 版が連続していなければ差分を適用できないため、状態全体を送り直させる
+          wsManager.requestSnapshot();
+          return;
+        }
+        stateRef.current = { state, version: payload.data.version };
+        setAgentState(state);
+        
+        // 状態が変わっていなければ以降の通知は不要
+        if (previous?.state.status === state.status) return;
         
         // 状態が完了に変わったら処理中フラグをオフに
-        if (payload.data.status === 'completed') {
+        if (state.status === 'completed') {
           setIsProcessing(false);
           
-          // 結果メッセージを追加
-          const results = payload.data.results || [];
-          if (results.length > 0) {
+          // 最後のステップの報告を回答とし、成果物を添付した結果メッセージを追加
+          const results = state.results || [];
+          const taskArtifacts = state.artifacts || [];
+          const answer = results.length > 0 ? String(results[results.length - 1].output ?? "") : "";
+          if (results.length > 0 || taskArtifacts.length > 0) {
             addMessage({
               id: uuidv4(),
               role: "assistant",
-              content: `タスクが完了しました。\n\n結果: ${JSON.stringify(results, null, 2)}`,
+              content: `タスクが完了しました。${answer ? `\n\n${answer}` : ""}`,
+              attachments: taskArtifacts.map((artifact) => ({
+                name: artifact.name,
+                type: artifact.mimeType,
+                url: `/api/artifacts/${artifact.id}`,
+              })),
               timestamp: Date.now(),
             });
           }
+          loadArtifacts();
+        } else if (state.status === 'cancelled') {
+          setIsProcessing(false);
+          addMessage({
+            id: uuidv4(),
+            role: "assistant",
+            content: "タスクを中止しました。",
+            timestamp: Date.now(),
+          });
+        } else if (state.status === 'error' || state.status === 'interrupted') {
+          setIsProcessing(false);
+        }
+        
+        // 終了したタスクで生成途中のまま残ったメッセージを確定させる
+        if (['completed', 'cancelled', 'error', 'interrupted'].includes(state.status)) {
+          setMessages((prev) =>
+            prev.some((message) => message.streaming)
+              ? prev.map((message) => (message.streaming ? { ...message, streaming: false } : message))
+              : prev
+          );
+        }
+      } else if (payload.type === 'message-delta') {
+        applyMessageDelta(payload.data);
+      } else if (payload.type === 'plan-diff') {
+        // 状態の変化以外（追加・移動）を強調表示する
+        const changes: PlanChange[] = payload.data.changes;
+        const changed = changes.filter((change) => change.type === 'added' || change.type === 'moved');
+        if (changed.length > 0) {
+          setChangedStepIds(new Set(changed.map((change) => (change.type === 'added' ? change.step.id : change.stepId))));
         }
+      } else if (payload.type === 'queue-update') {
+        setQueue(payload.data.items);
+      } else if (payload.type === 'notification') {
+        // しきい値を通過した進捗だけをチャットに表示する（定期通知は進捗バーに反映済み）
+        if (payload.data.kind === 'progress' && payload.data.trigger === 'threshold') {
+          addMessage({
+            id: uuidv4(),
+            role: "assistant",
+            content: payload.data.message,
+            timestamp: Date.now(),
+          });
+        }
+      } else if (payload.type === 'question') {
+        // エージェントからの質問をチャットに表示する（再送時の重複は除く）
+        const question: AgentQuestion = payload.data;
+        setMessages((prev) =>
+          prev.some((message) => message.question?.id === question.id)
+            ? prev
+            : [
+                ...prev,
+                {
+                  id: uuidv4(),
+                  role: "assistant",
+                  content: question.question,
+                  question,
+                  timestamp: Date.now(),
+                },
+              ]
+        );
       }
     });
     
@@ -74,28 +379,248 @@ export default function Home() {
     };
   }, [sessionId]);
   
+  // セッションの成果物の一覧を取得する（セッションが未保存なら空のまま）
+  const loadArtifacts = async () => {
+    try {
+      const response = await fetch(`/api/artifacts?sessionId=${sessionId}`);
+      if (!response.ok) return;
+      const result = await response.json();
+      setArtifacts(result.artifacts);
+    } catch (error) {
+      console.error("Error loading artifacts:", error);
+    }
+  };
+  
+  // セッションの過去のタスクをチャットに復元する（セッションが未保存なら初期メッセージのまま）
+  const loadSessionHistory = async (isCurrent: () => boolean) => {
+    try {
+      const [tasksResponse, artifactsResponse] = await Promise.all([
+        fetch(`/api/agent/tasks?sessionId=${sessionId}`),
+        fetch(`/api/artifacts?sessionId=${sessionId}`),
+      ]);
+      if (!tasksResponse.ok || !artifactsResponse.ok) return;
+      const { tasks } = await tasksResponse.json();
+      const { artifacts: sessionArtifacts } = await artifactsResponse.json();
+      if (!isCurrent()) return;
+      setArtifacts(sessionArtifacts);
+      
+      const restored = tasks.flatMap((task: any) => {
+        const messages: any[] = [{ id: `${task.id}-task`, role: "user", content: task.task, timestamp: task.createdAt }];
+        if (task.status === 'completed') {
+          const answer = task.steps.length > 0 ? task.steps[task.steps.length - 1].output : "";
+          messages.push({
+            id: `${task.id}-result`,
+            role: "assistant",
+            content: `タスクが完了しました。${answer ? `\n\n${answer}` : ""}`,
+            attachments: sessionArtifacts
+              .filter((artifact: Artifact & { url: string }) => artifact.taskId === task.id)
+              .map((artifact: Artifact & { url: string }) => ({ name: artifact.name, type: artifact.mimeType, url: artifact.url })),
+            timestamp: task.updatedAt,
+          });
+        } else if (task.status === 'cancelled') {
+          messages.push({ id: `${task.id}-result`, role: "assistant", content: "タスクを中止しました。", timestamp: task.updatedAt });
+        }
+        return messages;
+      });
+      setMessages((prev) => (prev.length === initialMessages.length ? [...initialMessages, ...restored] : prev));
+    } catch (error) {
+      console.error("Error loading session history:", error);
+    }
+  };
+  
+  // 別のセッションに切り替える（空文字なら新しいセッションを始める）
+  const switchSession = (nextSessionId: string) => {
+    if (nextSessionId === sessionId) return;
+    stateRef.current = null;
+    setAgentState(null);
+    setMessages(initialMessages);
+    setInput("");
+    setAttachedFiles([]);
+    setIsProcessing(false);
+    setChangedStepIds(new Set());
+    setArtifacts([]);
+    setPreview(null);
+    setQueue([]);
+    setSessionId(nextSessionId || uuidv4());
+  };
+  
+  // 成果物をプレビューする（画像は直接表示し、テキストは内容を取得して表示する）
+  const openPreview = async (url: string) => {
+    const artifact = artifacts.find((candidate) => candidate.url === url);
+    if (!artifact) {
+      window.open(url, "_blank");
+      return;
+    }
+    
+    const type = artifact.mimeType.split(";")[0];
+    if (type.startsWith("image/") && type !== "image/svg+xml") {
+      setPreview({ artifact, text: null });
+      return;
+    }
+    if (!type.startsWith("text/") && type !== "application/json") {
+      window.open(`${url}?download=1`, "_blank");
+      return;
+    }
+    
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status}`);
+      }
+      const text = await response.text();
+      setPreview({ artifact, text: text.length > MAX_PREVIEW_LENGTH ? `${text.slice(0, MAX_PREVIEW_LENGTH)}\n...` : text });
+    } catch (error) {
+      console.error("Error loading artifact:", error);
+    }
+  };
+  
+  // ファイルをアップロードし、添付ファイルの情報を取得する
+  // リクエストの大きさはサーバーで1ファイル分に制限されるため、1ファイルずつ送信する
+  const uploadFiles = async (files: File[]): Promise<Attachment[]> => {
+    const attachments: Attachment[] = [];
+    for (const file of files) {
+      const form = new FormData();
+      form.append("sessionId", sessionId);
+      form.append("files", file);
+      
+      const response = await fetch("/api/agent/upload", { method: "POST", body: form });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || `API error: ${response.status}`);
+      }
+      attachments.push(...result.attachments);
+    }
+    return attachments;
+  };
+  
   // メッセージを追加する
   const addMessage = (message: any) => {
     setMessages((prev) => [...prev, message]);
   };
   
+  // モデルの生成途中の出力をメッセージに反映する（完了時に全文で確定し、失敗・空の出力は取り除く）
+  const applyMessageDelta = (delta: MessageDelta) => {
+    setMessages((prev) => {
+      const index = prev.findIndex((message) => message.id === delta.messageId);
+      if (delta.failed || (delta.done && !delta.content)) {
+        return index >= 0 ? prev.filter((message) => message.id !== delta.messageId) : prev;
+      }
+      
+      const content = delta.done ? delta.content : `${index >= 0 ? prev[index].content : ""}${delta.delta}`;
+      if (index < 0) {
+        return [
+          ...prev,
+          {
+            id: delta.messageId,
+            role: "assistant",
+            content,
+            phase: delta.phase,
+            streaming: !delta.done,
+            timestamp: Date.now(),
+          },
+        ];
+      }
+      return prev.map((message, i) => (i === index ? { ...message, content, streaming: !delta.done } : message));
+    });
+  };
+  
+  // モデル変更ハンドラ（次のタスクから適用される）
+  const handleModelChange = async (modelName: string) => {
+    setSelectedModel(modelName);
+    if (!modelName) return;
+    
+    try {
+      const response = await fetch("/api/agent", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionId, modelName }),
+      });
+      
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status}`);
+      }
+    } catch (error) {
+      console.error("Error selecting model:", error);
+      setModelsError("モデルを変更できませんでした");
+    }
+  };
+  
+  // 回答待ちの質問
+  const pendingQuestion = agentState?.pendingQuestion ?? null;
+  
+  // 質問への回答を送信する
+  const sendAnswer = async (question: AgentQuestion, answer: string) => {
+    addMessage({
+      id: uuidv4(),
+      role: "user",
+      content: answer,
+      timestamp: Date.now(),
+    });
+    setInput("");
+    
+    try {
+      const response = await fetch("/api/agent", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionId, action: "answer", questionId: question.id, answer }),
+      });
+      
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status}`);
+      }
+    } catch (error) {
+      console.error("Error sending answer:", error);
+      addMessage({
+        id: uuidv4(),
+        role: "assistant",
+        content: "回答を送信できませんでした。もう一度お試しください。",
+        timestamp: Date.now(),
+      });
+    }
+  };
+  
   // フォーム送信ハンドラ
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     
-    if (!input.trim() || isProcessing) return;
+    // 質問への回答待ちなら、入力を回答として送信する
+    if (pendingQuestion && input.trim()) {
+      await sendAnswer(pendingQuestion, input.trim());
+      return;
+    }
+    
+    if (!input.trim()) return;
+    
+    // 添付ファイルを先にワークスペースへアップロードする
+    let attachments: Attachment[] = [];
+    if (attachedFiles.length > 0) {
+      try {
+        attachments = await uploadFiles(attachedFiles);
+      } catch (error) {
+        console.error("Error uploading files:", error);
+        addMessage({
+          id: uuidv4(),
+          role: "assistant",
+          content: `ファイルをアップロードできませんでした: ${error instanceof Error ? error.message : String(error)}`,
+          timestamp: Date.now(),
+        });
+        return;
+      }
+    }
     
     // ユーザーメッセージを追加
     const userMessage = {
       id: uuidv4(),
       role: "user",
       content: input,
+      attachments,
       timestamp: Date.now(),
     };
     addMessage(userMessage);
     
     // 入力フィールドをクリアして処理中状態に
     setInput("");
+    setAttachedFiles([]);
     setIsProcessing(true);
     
     try {
@@ -103,18 +628,22 @@ export default function Home() {
       const response = await fetch("/api/agent", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ sessionId, task: input }),
+        body: JSON.stringify({ sessionId, task: input, attachments }),
       });
       
       if (!response.ok) {
         throw new Error(`API error: ${response.status}`);
       }
+      setSavedSessions(recordSavedSession(sessionId, userMessage.content));
       
-      // 思考中メッセージを追加
+      // 実行中のタスクがあればキューに追加される
+      const result = await response.json();
       addMessage({
         id: uuidv4(),
         role: "assistant",
-        content: "タスクを計画中です...",
+        content: result.position > 0
+          ? `前のタスクの終了後に実行します（待ち順: ${result.position}番目）`
+          : "タスクを計画中です...",
         timestamp: Date.now(),
       });
       
@@ -134,13 +663,312 @@ export default function Home() {
     }
   };
   
+  // タスク制御ハンドラ（一時停止・再開・中止）
+  const handleControl = async (action: 'pause' | 'resume' | 'cancel') => {
+    try {
+      const response = await fetch("/api/agent", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionId, action }),
+      });
+      
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status}`);
+      }
+      
+      if (action === 'resume') {
+        setIsProcessing(true);
+      }
+    } catch (error) {
+      console.error(`Error sending ${action}:`, error);
+    }
+  };
+  
+  // キュー内のタスクを移動・取り消す
+  const handleQueue = async (id: string, position: number | null) => {
+    try {
+      const response = position === null
+        ? await fetch(`/api/agent/queue?sessionId=${sessionId}&id=${id}`, { method: "DELETE" })
+        : await fetch("/api/agent/queue", {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ sessionId, id, position }),
+          });
+      
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status}`);
+      }
+    } catch (error) {
+      console.error("Error updating queue:", error);
+    }
+  };
+  
+  // 実行待ちのタスクの表示
+  const renderQueue = () => {
+    if (queue.length === 0) return null;
+    
+    return (
+      <div className="border rounded p-4 mb-4 bg-gray-50">
+        <h3 className="font-bold mb-2">実行待ちのタスク</h3>
+        <ol className="text-sm">
+          {queue.map((item) => (
+            <li key={item.id} className="flex items-center gap-2 mb-1">
+              <span className="text-gray-500">{item.position}.</span>
+              <span className="flex-1 truncate">{item.resume ? `（再開）${item.task}` : item.task}</span>
+              <button
+                type="button"
+                onClick={() => handleQueue(item.id, item.position - 1)}
+                disabled={item.position === 1}
+                className="px-2 rounded border text-xs disabled:opacity-40"
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => handleQueue(item.id, null)}
+                className="px-2 rounded border border-red-400 text-red-500 text-xs"
+              >
+                取消
+              </button>
+            </li>
+          ))}
+        </ol>
+      </div>
+    );
+  };
+  
+  // 成果物のプレビューの表示
+  const renderPreview = () => {
+    if (!preview) return null;
+    
+    const { artifact, text } = preview;
+    const type = artifact.mimeType.split(";")[0];
+    let body;
+    if (text === null) {
+      body = <img src={artifact.url} alt={artifact.name} className="max-w-full max-h-96" />;
+    } else if (type === "text/csv") {
+      const rows = parseCsv(text, MAX_PREVIEW_ROWS);
+      body = (
+        <table className="text-xs border-collapse">
+          <tbody>
+            {rows.map((row, i) => (
+              <tr key={i} className={i === 0 ? "font-semibold bg-gray-100" : ""}>
+                {row.map((cell, j) => (
+                  <td key={j} className="border px-2 py-1">{cell}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      );
+    } else if (type === "text/markdown") {
+      body = <div className="text-sm space-y-2">{renderMarkdown(parseMarkdown(text))}</div>;
+    } else {
+      body = <pre className="text-xs whitespace-pre-wrap">{text}</pre>;
+    }
+    
+    return (
+      <div className="mt-2 border-t pt-2">
+        <div className="flex items-center justify-between mb-1 text-sm">
+          <span className="font-semibold">{artifact.path}</span>
+          <button type="button" onClick={() => setPreview(null)} className="px-2 rounded border text-xs">
+            閉じる
+          </button>
+        </div>
+        <div className="max-h-96 overflow-auto">{body}</div>
+      </div>
+    );
+  };
+  
+  // 成果物の一覧の表示
+  const renderArtifacts = () => {
+    if (artifacts.length === 0) return null;
+    
+    return (
+      <div className="border rounded p-4 mb-4 bg-gray-50">
+        <h3 className="font-bold mb-2">成果物</h3>
+        <ul className="text-sm max-h-40 overflow-y-auto">
+          {artifacts.map((artifact) => (
+            <li key={artifact.id} className="flex items-center gap-2 mb-1">
+              <span className="flex-1 truncate" title={artifact.path}>{artifact.path}</span>
+              <span className="text-gray-500 text-xs">{formatSize(artifact.size)}</span>
+              <button
+                type="button"
+                onClick={() => openPreview(artifact.url)}
+                className="px-2 rounded border text-xs"
+              >
+                プレビュー
+              </button>
+              <a href={`${artifact.url}?download=1`} className="px-2 rounded border text-xs">
+                ダウンロード
+              </a>
+            </li>
+          ))}
+        </ul>
+        {renderPreview()}
+      </div>
+    );
+  };
+  
+  // ログビューアの表示
+  const renderLogs = () => {
+    if (!showLogs) return null;
+    
+    return (
+      <div className="border rounded p-4 mb-4 bg-gray-50">
+        <div className="flex items-center gap-2 mb-2 text-sm">
+          <h3 className="font-bold flex-1">ログ</h3>
+          <select
+            className="border rounded p-1"
+            value={logFilter.level}
+            onChange={(e) => setLogFilter((prev) => ({ ...prev, level: e.target.value as LogLevel }))}
+          >
+            {(Object.keys(LOG_LEVEL_CLASSES) as LogLevel[]).map((level) => (
+              <option key={level} value={level}>{level} 以上</option>
+            ))}
+          </select>
+          <input
+            className="border rounded p-1"
+            placeholder="絞り込み"
+            value={logFilter.search}
+            onChange={(e) => setLogFilter((prev) => ({ ...prev, search: e.target.value }))}
+          />
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={logFilter.sessionOnly}
+              onChange={(e) => setLogFilter((prev) => ({ ...prev, sessionOnly: e.target.checked }))}
+            />
+            このセッションのみ
+          </label>
+        </div>
+        <div className="text-xs font-mono bg-white border rounded p-2 max-h-64 overflow-y-auto">
+          {logEntries.length === 0 && <p className="text-gray-500">ログはありません</p>}
+          {logEntries.map((entry) => (
+            <div key={entry.seq} className={LOG_LEVEL_CLASSES[entry.level]}>
+              <span className="text-gray-400">{new Date(entry.time).toLocaleTimeString()}</span>
+              {" "}[{entry.level}]
+              {entry.taskId && <span className="text-gray-400"> {entry.taskId.slice(0, 8)}</span>}
+              {" "}{entry.message}
+              {entry.data !== undefined && (
+                <pre className="whitespace-pre-wrap text-gray-500 ml-4">{JSON.stringify(entry.data, null, 2)}</pre>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+  
+  // 承認リクエストへの決定を送信する
+  const handleApproval = async (requestId: string, decision: ApprovalDecision) => {
+    try {
+      const response = await fetch("/api/agent", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ sessionId, action: "approval", requestId, decision }),
+      });
+      
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status}`);
+      }
+    } catch (error) {
+      console.error("Error sending approval decision:", error);
+    }
+  };
+  
+  // 承認リクエストの表示
+  const renderApproval = () => {
+    const request = agentState?.pendingApproval;
+    if (!request) return null;
+    
+    return (
+      <div className="border border-yellow-400 rounded p-4 mb-4 bg-yellow-50">
+        <h3 className="font-bold mb-1">操作の承認が必要です</h3>
+        <p className="text-sm mb-2">
+          {request.assessment.summary}
+          <span className="ml-2 text-xs text-red-600">危険度: {request.assessment.riskLevel}</span>
+        </p>
+        <pre className="text-xs bg-white border rounded p-2 max-h-48 overflow-auto whitespace-pre-wrap">
+          {request.assessment.detail}
+        </pre>
+        <div className="flex gap-2 mt-2 text-sm">
+          <button
+            type="button"
+            onClick={() => handleApproval(request.id, 'approve')}
+            className="px-3 py-1 rounded bg-blue-500 hover:bg-blue-600 text-white"
+          >
+            承認
+          </button>
+          <button
+            type="button"
+            onClick={() => handleApproval(request.id, 'always-allow')}
+            className="px-3 py-1 rounded border border-blue-500 text-blue-600 hover:bg-blue-50"
+          >
+            常に許可
+          </button>
+          <button
+            type="button"
+            onClick={() => handleApproval(request.id, 'deny')}
+            className="px-3 py-1 rounded bg-red-500 hover:bg-red-600 text-white"
+          >
+            拒否
+          </button>
+        </div>
+      </div>
+    );
+  };
+  
   // 進捗表示
   const renderProgress = () => {
     if (!agentState || agentState.status === 'idle') return null;
     
+    const isTaskActive = !['completed', 'cancelled', 'interrupted', 'error'].includes(agentState.status);
+    // 中断・中止・エラーで終わったタスクはチェックポイントから再開できる
+    const isResumable = !isTaskActive && agentState.status !== 'completed' && !!agentState.checkpoint;
+    
     return (
       <div className="border rounded p-4 mb-4 bg-gray-50">
-        <h3 className="font-bold mb-2">タスク進捗状況</h3>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="font-bold">タスク進捗状況</h3>
+          {isTaskActive && (
+            <div className="flex gap-2 text-sm">
+              {agentState.status === 'paused' ? (
+                <button
+                  type="button"
+                  onClick={() => handleControl('resume')}
+                  className="px-3 py-1 rounded bg-blue-500 hover:bg-blue-600 text-white"
+                >
+                  再開
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => handleControl('pause')}
+                  className="px-3 py-1 rounded bg-gray-300 hover:bg-gray-400"
+                >
+                  一時停止
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => handleControl('cancel')}
+                className="px-3 py-1 rounded bg-red-500 hover:bg-red-600 text-white"
+              >
+                停止
+              </button>
+            </div>
+          )}
+          {isResumable && (
+            <button
+              type="button"
+              onClick={() => handleControl('resume')}
+              className="px-3 py-1 rounded bg-blue-500 hover:bg-blue-600 text-white text-sm"
+            >
+              続きから再開
+            </button>
+          )}
+        </div>
         <div className="mb-2">
           <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
             <div
@@ -148,7 +976,20 @@ export default function Home() {
               style={{ width: `${agentState.progress}%` }}
             ></div>
           </div>
-          <p className="text-sm mt-1">{agentState.progress}% 完了</p>
+          <p className="text-sm mt-1">
+            {agentState.progress}% 完了
+            {agentState.progress < 100 && agentState.eta != null && (
+              <span className="text-gray-500 ml-2">{formatEta(agentState.eta)}</span>
+            )}
+          </p>
+          {agentState.usage?.modelCalls > 0 && (
+            <p className="text-xs text-gray-500 mt-1">
+              トークン: {agentState.usage.totalTokens.toLocaleString()}
+              {agentState.usage.estimatedTokens > 0 && "（推定を含む）"}
+              {agentState.usage.cost > 0 && ` / 料金: $${agentState.usage.cost.toFixed(4)}`}
+              {` / モデル ${(agentState.usage.modelLatencyMs / 1000).toFixed(1)}秒・ツール ${(agentState.usage.toolDurationMs / 1000).toFixed(1)}秒`}
+            </p>
+          )}
         </div>
         <p className="text-sm">
           <span className="font-semibold">状態: </span>
@@ -156,14 +997,59 @@ export default function Home() {
           {agentState.status === 'executing' && '実行中'}
           {agentState.status === 'observing' && '観察中'}
           {agentState.status === 'updating' && '更新中'}
+          {agentState.status === 'paused' && '一時停止中'}
+          {agentState.status === 'waiting-for-user' && '回答待ち'}
+          {agentState.status === 'waiting-for-approval' && '承認待ち'}
           {agentState.status === 'completed' && '完了'}
+          {agentState.status === 'cancelled' && '中止'}
+          {agentState.status === 'interrupted' && '中断（サーバー再起動）'}
           {agentState.status === 'error' && 'エラー'}
         </p>
-        {agentState.currentStep && (
-          <p className="text-sm mt-1">
-            <span className="font-semibold">現在のステップ: </span>
-            {agentState.currentStep}
-          </p>
+        {agentState.plan.length > 0 && (
+          <ol className="text-sm mt-2">
+            {agentState.plan.map((step) => {
+              const status = STEP_STATUS_LABELS[step.status];
+              return (
+                <li key={step.id} className={status.className}>
+                  <span className="inline-block w-4">{status.icon}</span>
+                  {step.title}
+                  <span className="ml-2 text-xs">
+                    （{status.label}{step.attempts > 1 ? `・${step.attempts}回目` : ''}）
+                  </span>
+                  {changedStepIds.has(step.id) && (
+                    <span className="ml-1 text-xs text-yellow-600">計画変更</span>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+        {agentState.activeTool && (
+          <div className="mt-2">
+            <p className="text-sm">
+              <span className="font-semibold">実行中のツール: </span>
+              {agentState.activeTool.name}
+            </p>
+            {agentState.activeTool.output.length > 0 && (
+              <pre className="text-xs bg-black text-gray-100 rounded p-2 mt-1 max-h-40 overflow-y-auto whitespace-pre-wrap">
+                {agentState.activeTool.output.map((chunk, i) => (
+                  <span key={i} className={chunk.stream === 'stderr' ? 'text-red-300' : undefined}>
+                    {chunk.data}
+                  </span>
+                ))}
+              </pre>
+            )}
+          </div>
+        )}
+        {agentState.touchedFiles.length > 0 && (
+          <div className="text-sm mt-2">
+            <span className="font-semibold">変更したファイル: </span>
+            <ul className="list-disc list-inside text-xs">
+              {[...new Set(agentState.touchedFiles.map((change) => change.path))].map((filePath) => (
+                <li key={filePath}>{filePath}</li>
+              ))}
+            </ul>
+          </div>
         )}
         {agentState.error && (
           <p className="text-sm mt-1 text-red-500">
@@ -178,11 +1064,59 @@ export default function Home() {
   return (
     <div className="flex flex-col h-screen max-h-screen">
       {/* ヘッダー */}
-      <header className="bg-white border-b p-4">
-        <h1 className="text-xl font-bold">WinManus AI アシスタント</h1>
-        <div className="text-xs">
-          <span className={`inline-block w-2 h-2 rounded-full mr-1 ${wsConnected ? 'bg-green-500' : 'bg-red-500'}`}></span>
-          {wsConnected ? 'オンライン' : 'オフライン'}
+      <header className="bg-white border-b p-4 flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-bold">WinManus AI アシスタント</h1>
+          <div className="text-xs">
+            <span className={`inline-block w-2 h-2 rounded-full mr-1 ${wsConnected ? 'bg-green-500' : 'bg-red-500'}`}></span>
+            {wsConnected ? 'オンライン' : 'オフライン'}
+            {transport === 'sse' && ' (SSE)'}
+          </div>
+        </div>
+        
+        {/* セッション・モデル選択 */}
+        <div className="text-sm text-right">
+          <select
+            className="border rounded p-1 mr-2 max-w-xs"
+            value={savedSessions.some((session) => session.id === sessionId) ? sessionId : ""}
+            onChange={(e) => switchSession(e.target.value)}
+          >
+            <option value="">新しいセッション</option>
+            {savedSessions.map((session) => (
+              <option key={session.id} value={session.id}>
+                {session.title} ({new Date(session.updatedAt).toLocaleString()})
+              </option>
+            ))}
+          </select>
+          <select
+            className="border rounded p-1"
+            value={selectedModel}
+            onChange={(e) => handleModelChange(e.target.value)}
+            disabled={models.length === 0}
+          >
+            <option value="">既定のモデル</option>
+            {models.map((model) => (
+              <option key={model.modelName} value={model.modelName}>
+                {model.name}
+                {model.parameterSize ? ` (${model.parameterSize})` : ''}
+              </option>
+            ))}
+          </select>
+          {modelsError && (
+            <p className="text-xs text-red-500 mt-1">{modelsError}</p>
+          )}
+          {selectedModel && isProcessing && (
+            <p className="text-xs text-gray-500 mt-1">次のタスクから適用されます</p>
+          )}
+          {logsAvailable && (
+            <button
+              type="button"
+              onClick={() => setShowLogs((prev) => !prev)}
+              className="block ml-auto mt-1 text-xs text-blue-600 hover:underline"
+            >
+              {showLogs ? "ログを閉じる" : "ログを表示"}
+            </button>
+          )}
         </div>
       </header>
       
@@ -201,30 +1135,111 @@ export default function Home() {
             >
               <div className="text-sm font-semibold mb-1">
                 {message.role === "user" ? "あなた" : "アシスタント"}
+                {message.phase && PHASE_LABELS[message.phase as AgentStatus] && (
+                  <span className="ml-2 text-xs font-normal text-gray-500">{PHASE_LABELS[message.phase as AgentStatus]}</span>
+                )}
+              </div>
+              <div className="whitespace-pre-wrap">
+                {message.content}
+                {message.streaming && <span className="animate-pulse">▍</span>}
               </div>
-              <div className="whitespace-pre-wrap">{message.content}</div>
+              {message.attachments?.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {message.attachments.map((attachment: { name: string; type: string; url: string }) => (
+                    <button
+                      key={attachment.url}
+                      type="button"
+                      onClick={() => openPreview(attachment.url)}
+                      className="px-2 py-1 rounded border bg-white text-sm hover:bg-gray-50"
+                    >
+                      📎 {attachment.name}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {message.question?.choices && pendingQuestion?.id === message.question.id && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {message.question.choices.map((choice: string) => (
+                    <button
+                      key={choice}
+                      type="button"
+                      onClick={() => sendAnswer(message.question, choice)}
+                      className="px-3 py-1 rounded border border-blue-500 text-blue-600 hover:bg-blue-50 text-sm"
+                    >
+                      {choice}
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
           ))}
         </div>
         
+        {/* 承認リクエスト */}
+        {renderApproval()}
+        
         {/* 進捗表示 */}
         {renderProgress()}
         
+        {/* 実行待ちのタスク */}
+        {renderQueue()}
+        
+        {/* 成果物 */}
+        {renderArtifacts()}
+        
+        {/* ログビューア */}
+        {renderLogs()}
+        
         {/* 入力フォーム */}
+        {attachedFiles.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-2 text-sm">
+            {attachedFiles.map((file, index) => (
+              <span key={`${file.name}-${index}`} className="flex items-center gap-1 px-2 py-1 rounded border bg-gray-50">
+                📎 {file.name}
+                <span className="text-gray-500 text-xs">{formatSize(file.size)}</span>
+                <button
+                  type="button"
+                  onClick={() => setAttachedFiles((prev) => prev.filter((_, i) => i !== index))}
+                  className="text-gray-500 hover:text-red-500"
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
         <form onSubmit={handleSubmit} className="flex items-end">
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              const files = Array.from(e.target.files ?? []);
+              setAttachedFiles((prev) => [...prev, ...files]);
+              e.target.value = "";
+            }}
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            title="ファイルを添付"
+            className="px-3 py-2 border rounded-l bg-gray-50 hover:bg-gray-100"
+          >
+            📎
+          </button>
           <textarea
-            className="flex-1 border rounded-l p-2 focus:outline-none focus:ring-2 focus:ring-blue-300"
-            placeholder="指示を入力してください..."
+            className="flex-1 border-y p-2 focus:outline-none focus:ring-2 focus:ring-blue-300"
+            placeholder={pendingQuestion ? "質問への回答を入力してください..." : "指示を入力してください..."}
             value={input}
             onChange={(e) => setInput(e.target.value)}
-            disabled={isProcessing}
             rows={2}
           />
           <button
             type="submit"
-            disabled={isProcessing || !input.trim()}
+            disabled={!input.trim()}
             className={`px-4 py-2 rounded-r text-white ${
-              isProcessing || !input.trim()
+              !input.trim()
                 ? "bg-gray-400"
                 : "bg-blue-500 hover:bg-blue-600"
             }`}
@@ -0,0 +1,220 @@
+import { describe, expect, it } from 'vitest';
+import { AgentLoop, AgentState } from '@/lib/agent/AgentLoop';
+import { MockProvider, MockStep } from '@/lib/llm/MockProvider';
+import { PolicyEngine } from '@/lib/tools/PolicyEngine';
+import { ToolRegistry } from '@/lib/tools/ToolRegistry';
+import { Tool } from '@/lib/tools/ToolTypes';
+import { askUserTool } from '@/lib/tools/askUserTool';
+
+// 入力をそのまま返す危険度の低いツール
+const echoTool: Tool<{ text: string }> = {
+  name: 'echo',
+  description: 'echo',
+  riskLevel: 'low',
+  parameters: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+  handler: async (input) => ({ echoed: input.text }),
+};
+
+// 承認が必要になる危険度の高いツール
+const dangerTool: Tool<Record<string, never>> = {
+  name: 'danger',
+  description: 'danger',
+  riskLevel: 'high',
+  parameters: { type: 'object', properties: {} },
+  handler: async () => ({ done: true }),
+};
+
+/**
+ * モックのモデルとテスト用のツールでエージェントを作成する
+ */
+function createAgent(script: MockStep[] = []) {
+  const provider = new MockProvider(script);
+  const tools = new ToolRegistry().register(echoTool).register(dangerTool).register(askUserTool);
+  const agent = new AgentLoop({ provider, tools, policy: new PolicyEngine('high'), progress: { intervalMs: 0 } });
+  return { agent, provider };
+}
+
+/**
+ * 状態が条件を満たすまで待つ
+ */
+function waitFor(agent: AgentLoop, predicate: (state: AgentState) => boolean, timeoutMs = 5000): Promise<AgentState> {
+  return new Promise((resolve, reject) => {
+    const check = (state: AgentState) => {
+      if (!predicate(state)) return;
+      clearTimeout(timer);
+      unsubscribe();
+      resolve(state);
+    };
+    const timer = setTimeout(() => {
+      unsubscribe();
+      reject(new Error(`Timed out waiting for the agent (status: ${agent.getState().status})`));
+    }, timeoutMs);
+    const unsubscribe = agent.onStateUpdate(check);
+    check(agent.getState());
+  });
+}
+
+const isFinished = (state: AgentState) => ['completed', 'cancelled', 'error'].includes(state.status);
+
+/**
+ * 1つのツールを呼び出して完了する1ステップの計画のスクリプト
+ */
+function singleToolStep(name: string, args: Record<string, any>): MockStep[] {
+  return [
+    JSON.stringify({ steps: ['ツールを使う'] }),
+    { toolCalls: [{ id: 'call-1', name, arguments: args }] },
+    'ツールを実行しました',
+    JSON.stringify({ success: true, feedback: '完了' }),
+    JSON.stringify({ continue: false }),
+  ];
+}
+
+describe('AgentLoop', () => {
+  it('runs plan, execute, observe and update phases to completion', async () => {
+    const { agent, provider } = createAgent([
+      JSON.stringify({ steps: ['準備する', { title: '仕上げる', dependsOn: [1] }] }),
+      { toolCalls: [{ id: 'call-1', name: 'echo', arguments: { text: 'hello' } }] },
+      '準備しました',
+      JSON.stringify({ success: true, feedback: '準備できた' }),
+      JSON.stringify({ continue: true }),
+      '仕上げました',
+      JSON.stringify({ success: true, feedback: '仕上がった' }),
+      JSON.stringify({ continue: false }),
+    ]);
+    const statuses = new Set<string>();
+    agent.onStateUpdate(state => statuses.add(state.status));
+
+    agent.startTask('テストのタスク');
+    const state = await waitFor(agent, isFinished);
+
+    expect(state.status).toBe('completed');
+    expect(state.plan.map(step => step.status)).toEqual(['done', 'done']);
+    expect(state.progress).toBe(100);
+    expect([...statuses]).toEqual(expect.arrayContaining(['planning', 'executing', 'observing', 'updating', 'completed']));
+    expect(state.results.map(result => result.output)).toEqual(['準備しました', '仕上げました']);
+
+    const toolCall = state.history.find(entry => entry.action === 'tool-call');
+    expect(toolCall?.result).toMatchObject({ tool: 'echo', success: true, output: { echoed: 'hello' } });
+    expect(state.history.map(entry => entry.action)).toEqual(
+      expect.arrayContaining(['execution', 'observation', 'plan-update']),
+    );
+    expect(provider.requests).toHaveLength(8);
+  });
+
+  it('marks a step failed when the observation reports a failure', async () => {
+    const { agent } = createAgent([
+      JSON.stringify({ steps: ['試す', { title: '続ける', dependsOn: [1] }] }),
+      '試しました',
+      JSON.stringify({ success: false, feedback: 'うまくいかなかった' }),
+      JSON.stringify({ continue: true }),
+    ]);
+
+    agent.startTask('失敗するタスク');
+    const state = await waitFor(agent, isFinished);
+
+    expect(state.status).toBe('completed');
+    expect(state.plan.map(step => step.status)).toEqual(['failed', 'skipped']);
+  });
+
+  it('passes the answer to ask_user back to the model', async () => {
+    const { agent } = createAgent(singleToolStep('ask_user', { question: 'どちらにしますか', choices: ['A', 'B'] }));
+
+    agent.startTask('質問するタスク');
+    const waiting = await waitFor(agent, state => state.status === 'waiting-for-user');
+
+    expect(waiting.pendingQuestion).toMatchObject({ question: 'どちらにしますか', choices: ['A', 'B'] });
+    expect(agent.answerQuestion(waiting.pendingQuestion!.id, 'C')).toBe(false);
+    expect(agent.answerQuestion(waiting.pendingQuestion!.id, 'B')).toBe(true);
+
+    const state = await waitFor(agent, isFinished);
+    expect(state.status).toBe('completed');
+    expect(state.pendingQuestion).toBeNull();
+    expect(state.history.find(entry => entry.action === 'user-answer')?.result).toMatchObject({ answer: 'B' });
+    expect(state.history.find(entry => entry.action === 'tool-call')?.result.output).toEqual({ question: 'どちらにしますか', answer: 'B' });
+  });
+
+  it('cancels a task that is waiting for an answer', async () => {
+    const { agent } = createAgent(singleToolStep('ask_user', { question: '続けますか' }));
+
+    agent.startTask('質問するタスク');
+    await waitFor(agent, state => state.status === 'waiting-for-user');
+    expect(agent.cancel()).toBe(true);
+
+    const state = await waitFor(agent, isFinished);
+    expect(state.status).toBe('cancelled');
+    expect(agent.isRunning()).toBe(false);
+  });
+
+  it('pauses between phases and resumes', async () => {
+    const { agent } = createAgent();
+
+    agent.startTask('一時停止するタスク');
+    expect(agent.pause()).toBe(true);
+    await waitFor(agent, state => state.status === 'paused');
+    expect(agent.resume()).toBe(true);
+
+    const state = await waitFor(agent, isFinished);
+    expect(state.status).toBe('completed');
+  });
+
+  it('cancels a paused task', async () => {
+    const { agent } = createAgent();
+
+    agent.startTask('中止するタスク');
+    agent.pause();
+    await waitFor(agent, state => state.status === 'paused');
+    expect(agent.cancel()).toBe(true);
+
+    const state = await waitFor(agent, isFinished);
+    expect(state.status).toBe('cancelled');
+    expect(agent.resume()).toBe(false);
+  });
+
+  it('runs a high-risk tool only after it is approved', async () => {
+    const { agent } = createAgent(singleToolStep('danger', {}));
+
+    agent.startTask('承認が必要なタスク');
+    const waiting = await waitFor(agent, state => state.status === 'waiting-for-approval');
+    expect(waiting.pendingApproval?.assessment).toMatchObject({ tool: 'danger', riskLevel: 'high' });
+    expect(agent.decideApproval(waiting.pendingApproval!.id, 'approve')).toBe(true);
+
+    const state = await waitFor(agent, isFinished);
+    expect(state.status).toBe('completed');
+    expect(state.history.find(entry => entry.action === 'approval')?.result).toMatchObject({ decision: 'approve' });
+    expect(state.history.find(entry => entry.action === 'tool-call')?.result).toMatchObject({ success: true, output: { done: true } });
+  });
+
+  it('does not run a high-risk tool that is denied', async () => {
+    const { agent } = createAgent(singleToolStep('danger', {}));
+
+    agent.startTask('拒否されるタスク');
+    const waiting = await waitFor(agent, state => state.status === 'waiting-for-approval');
+    agent.decideApproval(waiting.pendingApproval!.id, 'deny');
+
+    const state = await waitFor(agent, isFinished);
+    expect(state.history.find(entry => entry.action === 'approval')?.result).toMatchObject({ decision: 'deny' });
+    const toolCall = state.history.find(entry => entry.action === 'tool-call')?.result;
+    expect(toolCall.success).toBe(false);
+    expect(toolCall.error).toMatch(/denied/);
+  });
+
+  it('skips approval for operations always allowed', async () => {
+    const { agent } = createAgent([
+      ...singleToolStep('danger', {}).slice(0, 4),
+      JSON.stringify({ continue: true, operations: [{ op: 'insert', title: 'もう一度' }] }),
+      { toolCalls: [{ id: 'call-2', name: 'danger', arguments: {} }] },
+      'もう一度実行しました',
+      JSON.stringify({ success: true, feedback: '完了' }),
+      JSON.stringify({ continue: false }),
+    ]);
+
+    agent.startTask('常に許可するタスク');
+    const waiting = await waitFor(agent, state => state.status === 'waiting-for-approval');
+    agent.decideApproval(waiting.pendingApproval!.id, 'always-allow');
+
+    const state = await waitFor(agent, isFinished);
+    expect(state.status).toBe('completed');
+    expect(state.history.filter(entry => entry.action === 'approval')).toHaveLength(1);
+    expect(state.history.filter(entry => entry.action === 'tool-call' && entry.result.success)).toHaveLength(2);
+  });
+});
@@ -1,18 +1,122 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  AgentConfig,
+  AgentQuestion,
+  AgentStatus,
+  ApprovalDecision,
+  ApprovalRequest,
+  Artifact,
+  Attachment,
+  LoopCheckpoint,
+  MessageDelta,
+  PhaseUsage,
+  PlanOperation,
+  PlanStep,
+  TaskUsage,
+  UsageTotals,
+  WebSocketPayload,
+} from '@/lib/agent/AgentTypes';
+import { PlanStepInput, applyPlanOperations, createPlan, diffPlans, findNextStep, skipBlockedSteps, updateStep } from '@/lib/agent/plan';
+import {
+  DEFAULT_SYSTEM_PROMPT,
+  buildExecutePrompt,
+  buildObservePrompt,
+  buildPlanPrompt,
+  buildRepairPrompt,
+  buildUpdatePrompt,
+  formatToolResult,
+  parseJsonReply,
+} from '@/lib/agent/prompts';
+import { DEFAULT_PROGRESS_POLICY, ProgressPolicy, ProgressTracker, StepPhase, formatEta } from '@/lib/agent/progress';
+import { DEFAULT_RECOVERY_POLICY, RecoveryPolicy, backoffDelay, isTransientError } from '@/lib/agent/recovery';
+import { TaskRecord, buildTaskContext, estimateTokens, toTaskRecord } from '@/lib/agent/taskContext';
+import { BudgetExceededError, addTaskUsage, emptyTaskUsage, emptyUsage, modelCallUsage, sumUsage, toolCallUsage } from '@/lib/agent/usage';
+import { ChatMessage, ChatResponse, LLMProvider, ToolCall, ToolDefinition } from '@/lib/llm/LLMTypes';
+import { createProvider, parseModelName } from '@/lib/llm/createProvider';
+import { Logger, getLogger } from '@/lib/logging/logger';
+import { getMetrics } from '@/lib/metrics/agentMetrics';
+import { ApprovalThreshold, PolicyEngine } from '@/lib/tools/PolicyEngine';
+import { ToolRegistry } from '@/lib/tools/ToolRegistry';
+import { FileChange, Tool, ToolInvocation, ToolOutputChunk } from '@/lib/tools/ToolTypes';
+import { createDefaultToolRegistry } from '@/lib/tools/defaultTools';
+import { TimeoutController, createTimeoutController, sleep } from '@/lib/utils/abort';
+
+// 1ステップ内でツール呼び出しを繰り返す最大回数
+const MAX_TOOL_ROUNDS = 8;
+// 計画プロンプトに含める過去のタスクの文脈のトークン予算
+const CONTEXT_TOKEN_BUDGET = Number(process.env.AGENT_CONTEXT_TOKENS) || 2000;
+// 生成途中の出力をまとめて通知する間隔（ミリ秒）
+const STREAM_FLUSH_INTERVAL = 50;
+// 所要時間をメトリクスに記録するループのフェーズ
+const LOOP_PHASES: AgentStatus[] = ['planning', 'executing', 'observing', 'updating'];
+// 実行時間の予算に数えない、ユーザーの操作を待っている状態
+const IDLE_STATUSES: AgentStatus[] = ['paused', 'waiting-for-user', 'waiting-for-approval'];
+
+/**
+ * エージェントの既定設定
+ */
+export const DEFAULT_AGENT_CONFIG: AgentConfig = {
+  modelName: process.env.AGENT_MODEL || 'ollama:llama3.1',
+  temperature: 0.2,
+  maxTokens: 2048,
+  systemPrompt: DEFAULT_SYSTEM_PROMPT,
+};
+
+/**
+ * AgentLoop の生成オプション
+ */
+export type AgentLoopOptions = {
+  sessionId?: string;
+  config?: Partial<AgentConfig>;
+  provider?: LLMProvider;  // 省略時は config.modelName から生成する
+  tools?: ToolRegistry;    // 省略時は標準ツールを使用する
+  policy?: PolicyEngine;   // 省略時は既定のしきい値で生成する
+  initialState?: Partial<AgentState>; // 永続化ストアから復元する場合の状態
+  previousTasks?: TaskRecord[];       // 同じセッションで過去に実行したタスク（古い順）
+  recovery?: Partial<RecoveryPolicy>; // タイムアウト・再試行・上限の設定
+  progress?: Partial<ProgressPolicy>; // 進捗の通知の設定
+  // タスクの完了時に変更したファイルを成果物として保存する（省略時は保存しない）
+  captureArtifacts?: (taskId: string, paths: string[]) => Promise<Artifact[]>;
+};
+
 /**
  * エージェントの状態を表す型
  */
 export type AgentState = {
-  status: 'idle' | 'planning' | 'executing' | 'observing' | 'updating' | 'completed' | 'error';
+  status: AgentStatus;
+  taskId: string | null;
   currentTask: string | null;
-  plan: string[];
+  // タスクの指示に添付されたファイル（アップロード済みのもの）
+  attachments: Attachment[];
+  plan: PlanStep[];
   progress: number; // 0-100
+  eta: number | null; // 残り時間の見積もり（ミリ秒、見積もれない間は null）
   currentStep: string | null;
   results: any[];
   error: string | null;
+  // 実行中のツールとその逐次出力
+  activeTool: {
+    id: string;
+    name: string;
+    output: ToolOutputChunk[];
+  } | null;
+  // エージェントが変更したファイル（ワークスペースからの相対パス）
+  touchedFiles: FileChange[];
+  // 完了時に保存したタスクの成果物
+  artifacts: Artifact[];
+  // 回答待ちの質問
+  pendingQuestion: AgentQuestion | null;
+  // 承認待ちの危険な操作
+  pendingApproval: ApprovalRequest | null;
+  // 最後に完了したフェーズの位置（中断したタスクの再開に使用）
+  checkpoint: LoopCheckpoint | null;
+  // タスクで使用したトークン数・所要時間・料金
+  usage: TaskUsage;
   history: {
     action: string;
     result: any;
     timestamp: number;
+    usage?: PhaseUsage; // フェーズのエントリでは、そのフェーズの使用量
   }[];
 };
 
@@ -20,20 +124,87 @@ export type AgentState = {
  * エージェントループ（計画→実行→観察→更新）を制御するクラス
  */
 export class AgentLoop {
+  readonly sessionId: string;
   private state: AgentState;
   private taskRunning: boolean = false;
   private updateCallbacks: ((state: AgentState) => void)[] = [];
+  private eventCallbacks: ((payload: WebSocketPayload) => void)[] = [];
+  private messageCallbacks: ((taskId: string, message: ChatMessage) => void)[] = [];
+  private config: AgentConfig;
+  private provider: LLMProvider;
+  // モデルとの会話履歴（タスクごとにリセットする）
+  private conversation: ChatMessage[] = [];
+  // このセッションで終了したタスクの記録（古い順、次のタスクの計画に文脈として渡す）
+  private previousTasks: TaskRecord[];
+  // 次のタスクから使用するモデル（実行中のタスクには影響させない）
+  private pendingModelName: string | null = null;
+  private tools: ToolRegistry;
+  private policy: PolicyEngine;
+  private recovery: RecoveryPolicy;
+  private progressPolicy: ProgressPolicy;
+  // 実行中タスクの進捗率・残り時間の計算と、定期通知のタイマー
+  private progressTracker: ProgressTracker | null = null;
+  private progressTimer: NodeJS.Timeout | null = null;
+  private artifactCollector: AgentLoopOptions['captureArtifacts'] | null;
+  // 実行中タスクの中止用コントローラー
+  private abortController: AbortController | null = null;
+  // 実行中ステップの中止用（タスクの中止とステップの制限時間の超過で中止される）
+  private stepController: TimeoutController | null = null;
+  // 実行中タスクの開始時刻・ユーザーの操作を待っていた時間・実行したステップ数（上限の判定に使用）
+  private runStartedAt = 0;
+  private idleMs = 0;
+  private iterations = 0;
+  // 前回のフェーズの記録以降の使用量（フェーズの履歴のエントリに記録する）
+  private phaseUsage: UsageTotals = emptyUsage();
+  // 現在の状態になった時刻（フェーズの所要時間の計測に使用）
+  private statusChangedAt = Date.now();
+  // 一時停止の要求と、再開時に解決される待機
+  private pauseRequested = false;
+  private resumeWaiter: (() => void) | null = null;
+  // 回答待ちの質問の解決関数
+  private questionWaiter: {
+    id: string;
+    resolve: (answer: string) => void;
+    reject: (reason: unknown) => void;
+    timer: NodeJS.Timeout | null;
+  } | null = null;
+  // 承認待ちの操作の解決関数
+  private approvalWaiter: {
+    id: string;
+    resolve: (decision: ApprovalDecision) => void;
+    reject: (reason: unknown) => void;
+  } | null = null;
 
-  constructor() {
+  constructor(options: AgentLoopOptions = {}) {
+    this.sessionId = options.sessionId ?? uuidv4();
+    this.config = { ...DEFAULT_AGENT_CONFIG, ...options.config };
+    this.provider = options.provider ?? createProvider(this.config.modelName);
+    this.tools = options.tools ?? createDefaultToolRegistry();
+    this.policy = options.policy ?? new PolicyEngine();
+    this.previousTasks = options.previousTasks ?? [];
+    this.recovery = { ...DEFAULT_RECOVERY_POLICY, ...options.recovery };
+    this.progressPolicy = { ...DEFAULT_PROGRESS_POLICY, ...options.progress };
+    this.artifactCollector = options.captureArtifacts ?? null;
     this.state = {
       status: 'idle',
+      taskId: null,
       currentTask: null,
+      attachments: [],
       plan: [],
       progress: 0,
+      eta: null,
       currentStep: null,
       results: [],
       error: null,
+      activeTool: null,
+      touchedFiles: [],
+      artifacts: [],
+      pendingQuestion: null,
+      pendingApproval: null,
+      checkpoint: null,
+      usage: emptyTaskUsage(),
       history: [],
+      ...options.initialState,
     };
   }
 
@@ -44,6 +215,42 @@ export class AgentLoop {
     return { ...this.state };
   }
 
+  /**
+   * タスクを実行中か
+   */
+  isRunning(): boolean {
+    return this.taskRunning;
+  }
+
+  /**
+   * このセッションで終了したタスクの記録を古い順に取得する
+   */
+  getTaskHistory(): TaskRecord[] {
+    return [...this.previousTasks];
+  }
+
+  /**
+   * 現在の設定を取得する
+   */
+  getConfig(): AgentConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * 使用するモデルを変更する
+   * 実行中のタスクには影響せず、次の startTask から適用される
+   */
+  setModel(modelName: string): void {
+    this.pendingModelName = modelName;
+  }
+
+  /**
+   * 次のタスクで使用されるモデル名を取得する
+   */
+  getNextModelName(): string {
+    return this.pendingModelName ?? this.config.modelName;
+  }
+
   /**
    * 状態更新のコールバックを登録する
    */
@@ -56,10 +263,59 @@ export class AgentLoop {
     };
   }
 
+  /**
+   * 状態更新以外のイベント（質問・通知など）のコールバックを登録する
+   */
+  onEvent(callback: (payload: WebSocketPayload) => void): () => void {
+    this.eventCallbacks.push(callback);
+    
+    // コールバックの登録解除関数を返す
+    return () => {
+      this.eventCallbacks = this.eventCallbacks.filter(cb => cb !== callback);
+    };
+  }
+
+  /**
+   * モデルとの会話にメッセージが追加されたときのコールバックを登録する
+   */
+  onMessage(callback: (taskId: string, message: ChatMessage) => void): () => void {
+    this.messageCallbacks.push(callback);
+    
+    // コールバックの登録解除関数を返す
+    return () => {
+      this.messageCallbacks = this.messageCallbacks.filter(cb => cb !== callback);
+    };
+  }
+
+  /**
+   * 会話履歴にメッセージを追加する
+   */
+  private appendMessage(message: ChatMessage) {
+    this.conversation.push(message);
+    
+    const { taskId } = this.state;
+    if (!taskId) return;
+    for (const callback of this.messageCallbacks) {
+      callback(taskId, message);
+    }
+  }
+
+  /**
+   * イベントを送出する
+   */
+  private emit(payload: WebSocketPayload) {
+    for (const callback of this.eventCallbacks) {
+      callback(payload);
+    }
+  }
+
   /**
    * 状態を更新する
    */
   private updateState(updates: Partial<AgentState>) {
+    if (updates.status && updates.status !== this.state.status) {
+      this.recordStatusDuration();
+    }
     this.state = { ...this.state, ...updates };
     
     // 全てのコールバックを呼び出す
@@ -69,179 +325,985 @@ export class AgentLoop {
   }
 
   /**
-   * タスクを開始する
+   * 終了する状態の所要時間を記録する
+   * ループのフェーズはメトリクスに記録し、ユーザーの操作を待っていた時間は実行時間の予算から除く
+   */
+  private recordStatusDuration() {
+    const now = Date.now();
+    const elapsedMs = now - this.statusChangedAt;
+    if (LOOP_PHASES.includes(this.state.status)) {
+      getMetrics().phaseDuration.observe({ phase: this.state.status }, elapsedMs / 1000);
+    } else if (IDLE_STATUSES.includes(this.state.status)) {
+      this.idleMs += elapsedMs;
+    }
+    this.statusChangedAt = now;
+  }
+
+  /**
+   * タスクを開始する（attachments には指示に添付されたアップロード済みのファイルを渡す）
    */
-  async startTask(task: string) {
+  async startTask(task: string, attachments: Attachment[] = []) {
     if (this.taskRunning) {
-      console.warn('Task already running, ignoring new task');
+      this.log.warn('Task already running, ignoring new task');
       return;
     }
     
-    this.taskRunning = true;
+    this.applyPendingModel();
     this.updateState({
       status: 'planning',
+      taskId: uuidv4(),
       currentTask: task,
+      attachments,
       plan: [],
       progress: 0,
+      eta: null,
       currentStep: null,
       results: [],
       error: null,
+      activeTool: null,
+      touchedFiles: [],
+      artifacts: [],
+      pendingQuestion: null,
+      pendingApproval: null,
+      checkpoint: null,
+      usage: emptyTaskUsage(),
       history: [],
     });
+    this.conversation = [];
+    this.appendMessage({ role: 'system', content: this.config.systemPrompt });
+    this.appendMessage({ role: 'user', content: task });
+    
+    await this.run(task, null);
+  }
+
+  /**
+   * 中断したタスクをチェックポイントから再開できるか
+   */
+  canResumeFromCheckpoint(): boolean {
+    const { status, checkpoint, currentTask } = this.state;
+    return !this.taskRunning
+      && !!checkpoint
+      && !!currentTask
+      && ['interrupted', 'cancelled', 'error'].includes(status);
+  }
+
+  /**
+   * 中断したタスクを最後に完了したフェーズの次から再開する
+   * conversation にはチェックポイント時点までのモデルとの会話を渡す
+   */
+  resumeFromCheckpoint(conversation: ChatMessage[]): boolean {
+    if (!this.canResumeFromCheckpoint()) return false;
+    
+    const checkpoint = this.state.checkpoint!;
+    this.conversation = conversation.slice(0, checkpoint.messageCount);
+    this.updateState({
+      status: 'executing',
+      error: null,
+      activeTool: null,
+      pendingQuestion: null,
+      pendingApproval: null,
+      history: [
+        ...this.state.history,
+        {
+          action: 'resume',
+          result: { stepId: checkpoint.stepId, next: checkpoint.next },
+          timestamp: Date.now(),
+        },
+      ],
+    });
+    
+    // 再開は非同期に進め、受け付けたことだけを返す
+    this.run(this.state.currentTask!, checkpoint);
+    return true;
+  }
+
+  /**
+   * エージェントループを実行し、中止・エラーを状態に反映する
+   */
+  private async run(task: string, from: LoopCheckpoint | null) {
+    this.taskRunning = true;
+    this.abortController = new AbortController();
+    this.pauseRequested = false;
+    this.runStartedAt = Date.now();
+    this.idleMs = 0;
+    this.iterations = 0;
+    this.phaseUsage = emptyUsage();
+    // 再開したタスクでは中断時の進捗率から数え直す
+    this.progressTracker = new ProgressTracker(this.progressPolicy.thresholds, from ? this.state.progress : 0);
+    if (this.progressPolicy.intervalMs > 0) {
+      this.progressTimer = setInterval(() => this.notifyProgress('interval'), this.progressPolicy.intervalMs);
+    }
+    this.log.info(from ? `Resuming task at ${from.next}` : 'Task started', { model: this.config.modelName });
+    getMetrics().tasksStarted.inc();
     
     try {
-      await this.runAgentLoop(task);
+      await this.runAgentLoop(task, from);
     } catch (error) {
-      console.error('Error in agent loop:', error);
-      this.updateState({
-        status: 'error',
-        error: error instanceof Error ? error.message : String(error),
-      });
+      if (this.isCancelled()) {
+        this.log.info('Task cancelled');
+        this.updateState({
+          status: 'cancelled',
+          currentStep: null,
+          activeTool: null,
+          pendingQuestion: null,
+          pendingApproval: null,
+          error: null,
+        });
+      } else {
+        this.log.error('Error in agent loop', error);
+        this.updateState({
+          status: 'error',
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
     } finally {
       this.taskRunning = false;
+      this.abortController = null;
+      if (this.progressTimer) clearInterval(this.progressTimer);
+      this.progressTimer = null;
+      this.progressTracker = null;
+      this.pauseRequested = false;
+      this.resumeWaiter = null;
+      this.recordTask();
+      this.log.info(`Task finished with status ${this.state.status}`, this.state.usage);
+      getMetrics().tasksFinished.inc({ status: this.state.status });
     }
   }
 
   /**
-   * エージェントループの実行
+   * 終了したタスクを記録する（再開して終了し直したタスクは記録を置き換える）
    */
-  private async runAgentLoop(task: string) {
-    // 1. 計画フェーズ
-    await this.planTask(task);
+  private recordTask() {
+    const record = toTaskRecord(this.state);
+    this.previousTasks = [
+      ...this.previousTasks.filter(previous => previous.taskId !== record.taskId),
+      record,
+    ];
+  }
+
+  /**
+   * 実行中のタスクを一時停止する
+   * 実行中のフェーズが終わった時点で停止し、resume() まで待機する
+   */
+  pause(): boolean {
+    if (!this.taskRunning || this.pauseRequested || this.isCancelled()) return false;
+    
+    this.pauseRequested = true;
+    return true;
+  }
+
+  /**
+   * 一時停止中のタスクを再開する
+   */
+  resume(): boolean {
+    if (!this.taskRunning || !this.pauseRequested) return false;
+    
+    this.pauseRequested = false;
+    this.resumeWaiter?.();
+    this.resumeWaiter = null;
+    return true;
+  }
+
+  /**
+   * 実行中のタスクを中止する
+   * 実行中のモデル呼び出しとツール呼び出しにも中止を伝える
+   */
+  cancel(): boolean {
+    if (!this.taskRunning || !this.abortController || this.isCancelled()) return false;
     
-    // エラーがあれば中止
-    if (this.state.status === 'error') return;
+    this.abortController.abort(new Error('Task cancelled by user'));
+    // 一時停止中・回答待ちなら待機を解いて中止を反映させる
+    this.resumeWaiter?.();
+    this.resumeWaiter = null;
+    this.settleQuestion(null, this.abortController.signal.reason);
+    const approvalWaiter = this.approvalWaiter;
+    this.approvalWaiter = null;
+    approvalWaiter?.reject(this.abortController.signal.reason);
+    return true;
+  }
+
+  /**
+   * 承認が必要になる危険度のしきい値を取得する
+   */
+  getApprovalThreshold(): ApprovalThreshold {
+    return this.policy.getThreshold();
+  }
+
+  /**
+   * 承認が必要になる危険度のしきい値を変更する（実行中のタスクにも即座に適用される）
+   */
+  setApprovalThreshold(threshold: ApprovalThreshold): void {
+    this.policy.setThreshold(threshold);
+  }
+
+  /**
+   * 承認待ちの操作に決定を下す
+   */
+  decideApproval(requestId: string, decision: ApprovalDecision): boolean {
+    if (!this.approvalWaiter || this.approvalWaiter.id !== requestId) return false;
+    
+    const waiter = this.approvalWaiter;
+    this.approvalWaiter = null;
+    waiter.resolve(decision);
+    return true;
+  }
+
+  /**
+   * ツール実行前に危険度を評価し、しきい値以上ならユーザーの承認を待つ
+   * 決定は監査用に履歴へ記録し、拒否された場合は例外で実行を取りやめる
+   */
+  private async authorizeTool(call: ToolCall, tool: Tool): Promise<void> {
+    const assessment = await this.policy.assess(call, tool, this.sessionId);
+    if (!this.policy.requiresApproval(assessment)) return;
+    
+    const request: ApprovalRequest = {
+      id: uuidv4(),
+      toolCallId: call.id,
+      input: call.arguments,
+      assessment,
+      requestedAt: Date.now(),
+    };
+    const previousStatus = this.state.status;
     
-    // 各ステップを実行
-    for (let i = 0; i < this.state.plan.length; i++) {
-      const step = this.state.plan[i];
+    // 承認待ちの間はステップの制限時間を計測しない
+    this.stepController?.pause();
+    const decision = await new Promise<ApprovalDecision>((resolve, reject) => {
+      this.approvalWaiter = { id: request.id, resolve, reject };
       
-      // 2. 実行フェーズ
       this.updateState({
-        status: 'executing',
-        currentStep: step,
-        progress: Math.floor((i / this.state.plan.length) * 50),
+        status: 'waiting-for-approval',
+        pendingApproval: request,
       });
+      this.emit({ type: 'approval-request', data: request });
+    }).finally(() => this.stepController?.resume());
+    
+    if (decision === 'always-allow') {
+      this.policy.allowAlways(assessment);
+    }
+    
+    this.updateState({
+      status: previousStatus,
+      pendingApproval: null,
+      history: [
+        ...this.state.history,
+        {
+          action: 'approval',
+          result: {
+            requestId: request.id,
+            tool: tool.name,
+            input: call.arguments,
+            riskLevel: assessment.riskLevel,
+            categories: assessment.categories,
+            decision,
+          },
+          timestamp: Date.now(),
+        },
+      ],
+    });
+    
+    if (decision === 'deny') {
+      throw new Error(`The user denied this operation (${assessment.summary}). Choose a different approach.`);
+    }
+  }
+
+  /**
+   * ユーザーに質問し、回答を受け取るまで待機する
+   * 回答は履歴に記録され、呼び出し元（ask_user ツール）を通じて観察結果としてモデルに渡る
+   */
+  async ask(input: Omit<AgentQuestion, 'id' | 'askedAt'>): Promise<string> {
+    if (this.questionWaiter) {
+      throw new Error('Another question is already waiting for an answer');
+    }
+    this.abortController?.signal.throwIfAborted();
+    
+    const question: AgentQuestion = { ...input, id: uuidv4(), askedAt: Date.now() };
+    const previousStatus = this.state.status;
+    
+    // 回答待ちの間はステップの制限時間を計測しない
+    this.stepController?.pause();
+    const answer = await new Promise<string>((resolve, reject) => {
+      const timer = question.timeoutMs
+        ? setTimeout(() => {
+            this.log.info(`Question ${question.id} timed out, using default answer`);
+            this.settleQuestion(question.defaultAnswer ?? '');
+          }, question.timeoutMs)
+        : null;
+      this.questionWaiter = { id: question.id, resolve, reject, timer };
       
-      const result = await this.executeStep(step);
-      
-      // エラーがあれば中止
-      if (this.state.status === 'error') return;
-      
-      // 3. 観察フェーズ
       this.updateState({
-        status: 'observing',
-        progress: Math.floor((i / this.state.plan.length) * 70),
+        status: 'waiting-for-user',
+        pendingQuestion: question,
+      });
+      this.emit({ type: 'question', data: question });
+    }).finally(() => this.stepController?.resume());
+    
+    this.updateState({
+      status: previousStatus,
+      pendingQuestion: null,
+      history: [
+        ...this.state.history,
+        {
+          action: 'user-answer',
+          result: { questionId: question.id, question: question.question, answer },
+          timestamp: Date.now(),
+        },
+      ],
+    });
+    
+    return answer;
+  }
+
+  /**
+   * 回答待ちの質問に回答する
+   */
+  answerQuestion(questionId: string, answer: string): boolean {
+    if (!this.questionWaiter || this.questionWaiter.id !== questionId) return false;
+    
+    const { choices } = this.state.pendingQuestion ?? {};
+    if (choices && choices.length > 0 && !choices.includes(answer)) return false;
+    
+    this.settleQuestion(answer);
+    return true;
+  }
+
+  /**
+   * 回答待ちの質問を解決（answer が null なら reason で失敗）させる
+   */
+  private settleQuestion(answer: string | null, reason?: unknown) {
+    const waiter = this.questionWaiter;
+    if (!waiter) return;
+    
+    this.questionWaiter = null;
+    if (waiter.timer) clearTimeout(waiter.timer);
+    
+    if (answer === null) {
+      waiter.reject(reason);
+    } else {
+      waiter.resolve(answer);
+    }
+  }
+
+  /**
+   * モデル呼び出し・ツール呼び出しに渡す中止シグナル（ステップの実行中はステップのもの）
+   */
+  private currentSignal(): AbortSignal | undefined {
+    return this.stepController?.signal ?? this.abortController?.signal;
+  }
+
+  /**
+   * 履歴にエントリを追加する
+   */
+  private addHistory(action: string, result: any) {
+    this.updateState({
+      history: [...this.state.history, { action, result, timestamp: Date.now() }],
+    });
+  }
+
+  /**
+   * 実行中のタスクが中止されたか
+   */
+  private isCancelled(): boolean {
+    return !!this.abortController?.signal.aborted;
+  }
+
+  /**
+   * セッション・実行中のタスクを関連付けたロガー
+   */
+  private get log(): Logger {
+    return getLogger({ sessionId: this.sessionId, taskId: this.state.taskId });
+  }
+
+  /**
+   * フェーズの区切りで中止・一時停止の要求を反映する
+   */
+  private async checkpoint(): Promise<void> {
+    this.abortController?.signal.throwIfAborted();
+    
+    if (this.pauseRequested) {
+      const previousStatus = this.state.status;
+      this.updateState({ status: 'paused' });
+      
+      await new Promise<void>(resolve => {
+        this.resumeWaiter = resolve;
       });
       
-      const observation = await this.observeResult(result);
+      this.abortController?.signal.throwIfAborted();
+      this.updateState({ status: previousStatus });
+    }
+  }
+
+  /**
+   * 予約されたモデル変更を反映する
+   */
+  private applyPendingModel() {
+    if (!this.pendingModelName || this.pendingModelName === this.config.modelName) {
+      this.pendingModelName = null;
+      return;
+    }
+    
+    this.config = { ...this.config, modelName: this.pendingModelName };
+    this.provider = createProvider(this.config.modelName);
+    this.pendingModelName = null;
+  }
+
+  /**
+   * 完了したフェーズの位置を記録する
+   */
+  private saveCheckpoint(checkpoint: Omit<LoopCheckpoint, 'messageCount' | 'savedAt'>) {
+    this.updateState({
+      checkpoint: { ...checkpoint, messageCount: this.conversation.length, savedAt: Date.now() },
+    });
+  }
+
+  /**
+   * 計画を置き換え、変更点を plan-diff として通知する
+   */
+  private setPlan(plan: PlanStep[], updates: Partial<AgentState> = {}) {
+    const changes = diffPlans(this.state.plan, plan);
+    this.updateState({ ...updates, plan });
+    
+    if (changes.length > 0) {
+      this.emit({ type: 'plan-diff', data: { taskId: this.state.taskId, changes } });
+    }
+  }
+
+  /**
+   * 計画と実行中のステップ・フェーズから進捗率と残り時間を求める
+   */
+  private measureProgress(plan: PlanStep[], current: { stepId: string; phase: StepPhase } | null = null): Pick<AgentState, 'progress' | 'eta'> {
+    if (!this.progressTracker) return { progress: this.state.progress, eta: this.state.eta };
+    return this.progressTracker.compute(plan, current);
+  }
+  
+  /**
+   * 進捗を notification として通知する
+   * threshold では新たに通過したしきい値がある場合だけ、interval では処理中であれば常に通知する
+   */
+  private notifyProgress(trigger: 'threshold' | 'interval') {
+    const { progress, eta, status } = this.state;
+    if (!this.progressTracker || !['planning', 'executing', 'observing', 'updating'].includes(status)) return;
+    
+    const crossed = trigger === 'threshold' ? this.progressTracker.takeCrossedThresholds(progress) : [];
+    if (trigger === 'threshold' && crossed.length === 0) return;
+    
+    // 複数のしきい値を一度に通過した場合は最も大きいものだけを通知する
+    const percent = trigger === 'threshold' ? crossed[crossed.length - 1] : progress;
+    const remaining = formatEta(eta);
+    this.emit({
+      type: 'notification',
+      data: {
+        kind: 'progress',
+        trigger,
+        taskId: this.state.taskId,
+        progress,
+        eta,
+        message: trigger === 'threshold'
+          ? `${percent}%完了しました${remaining ? `（${remaining}）` : ''}`
+          : `進捗 ${percent}%${remaining ? `（${remaining}）` : ''}`,
+      },
+    });
+  }
+
+  /**
+   * エージェントループの実行
+   * from を指定した場合は計画フェーズを省き、チェックポイントの次のフェーズから再開する
+   */
+  private async runAgentLoop(task: string, from: LoopCheckpoint | null) {
+    // 1. 計画フェーズ
+    if (!from) {
+      await this.planTask(task);
+      this.saveCheckpoint({ stepId: null, next: 'execute', result: null, observation: null });
+    } else {
+      // 中断時に処理中だったステップのうち、再開位置でないものは最初からやり直す
+      this.setPlan(this.state.plan.map(step =>
+        step.status === 'running' && step.id !== from.stepId ? { ...step, status: 'pending' } : step,
+      ));
+    }
+    
+    let resumed = from?.stepId && from.next !== 'complete' ? from : null;
+    let shouldContinue = from?.next !== 'complete';
+    
+    // 依存関係を満たしたステップを順に実行する（更新フェーズで計画が変わるため毎回選び直す）
+    while (shouldContinue) {
+      this.enforceRunLimits();
+      const step = resumed
+        ? this.state.plan.find(candidate => candidate.id === resumed!.stepId) ?? null
+        : findNextStep(this.state.plan);
+      if (!step) break;
+      
+      // 2. 実行フェーズ（再開したステップでは完了済みのフェーズの結果を使う）
+      let result = resumed?.result;
+      if (!result) {
+        await this.checkpoint();
+        const plan = updateStep(this.state.plan, step.id, { status: 'running', attempts: step.attempts + 1 });
+        this.progressTracker?.stepStarted(step);
+        this.setPlan(plan, {
+          status: 'executing',
+          currentStep: step.title,
+          ...this.measureProgress(plan, { stepId: step.id, phase: 'execute' }),
+        });
+        this.notifyProgress('threshold');
+        
+        result = await this.executeWithRecovery(step);
+        this.saveCheckpoint({ stepId: step.id, next: 'observe', result, observation: null });
+      }
+      
+      // 3. 観察フェーズ
+      let observation = resumed?.observation;
+      if (!observation) {
+        await this.checkpoint();
+        this.updateState({
+          status: 'observing',
+          currentStep: step.title,
+          ...this.measureProgress(this.state.plan, { stepId: step.id, phase: 'observe' }),
+        });
+        this.notifyProgress('threshold');
+        
+        observation = await this.observeResult(result);
+        // 観察結果でステップの成否を確定する（失敗したステップに依存するステップは更新フェーズの後でスキップする）
+        this.setPlan(updateStep(this.state.plan, step.id, { status: observation.success ? 'done' : 'failed' }));
+        this.saveCheckpoint({ stepId: step.id, next: 'update', result, observation });
+      }
+      resumed = null;
       
       // 4. 更新フェーズ
+      await this.checkpoint();
       this.updateState({
         status: 'updating',
-        progress: Math.floor((i / this.state.plan.length) * 90),
+        currentStep: step.title,
+        ...this.measureProgress(this.state.plan),
       });
-      
-      const shouldContinue = await this.updatePlan(observation);
+      this.notifyProgress('threshold');
       
       // 更新の結果、続行不要なら終了
-      if (!shouldContinue) break;
+      shouldContinue = await this.updatePlan(observation);
+      this.progressTracker?.stepFinished(step);
+      this.saveCheckpoint({
+        stepId: null,
+        next: shouldContinue ? 'execute' : 'complete',
+        result: null,
+        observation: null,
+      });
     }
     
-    // タスク完了
-    this.updateState({
+    await this.checkpoint();
+    const artifacts = await this.captureArtifacts();
+    
+    // タスク完了（実行されずに残ったステップはスキップにする）
+    this.setPlan(this.state.plan.map(step => (step.status === 'pending' ? { ...step, status: 'skipped' } : step)), {
       status: 'completed',
+      artifacts,
       progress: 100,
+      eta: 0,
       currentStep: null,
     });
   }
 
+  /**
+   * タスクで変更したファイルを成果物として保存する（保存に失敗してもタスクは失敗させない）
+   */
+  private async captureArtifacts(): Promise<Artifact[]> {
+    const { taskId, touchedFiles } = this.state;
+    if (!this.artifactCollector || !taskId || touchedFiles.length === 0) return [];
+    
+    try {
+      return await this.artifactCollector(taskId, touchedFiles.map(change => change.path));
+    } catch (error) {
+      this.log.error('Error capturing artifacts', error);
+      return [];
+    }
+  }
+  
+  /**
+   * モデルに問い合わせ、やり取りを会話履歴に残す
+   */
+  private async prompt(content: string, tools?: ToolDefinition[]): Promise<ChatResponse> {
+    this.appendMessage({ role: 'user', content });
+    return this.complete(tools);
+  }
+
+  /**
+   * 現在の会話履歴でモデルに応答を生成させる
+   * 接続エラーなど一時的な失敗は待ち時間を倍々に延ばしながら再試行する
+   */
+  private async complete(tools?: ToolDefinition[]): Promise<ChatResponse> {
+    let response: ChatResponse;
+    let latencyMs: number;
+    for (let attempt = 1; ; attempt++) {
+      const stream = this.createMessageStream();
+      const startedAt = Date.now();
+      try {
+        response = await this.provider.chat({
+          model: parseModelName(this.config.modelName).model,
+          messages: this.conversation,
+          tools,
+          temperature: this.config.temperature,
+          maxTokens: this.config.maxTokens,
+          signal: this.currentSignal(),
+        }, stream.push);
+        latencyMs = Date.now() - startedAt;
+        getMetrics().modelRequestDuration.observe({ provider: this.provider.name, outcome: 'success' }, latencyMs / 1000);
+        stream.finish(response.content);
+        break;
+      } catch (error) {
+        stream.fail();
+        if (!this.currentSignal()?.aborted) {
+          getMetrics().modelRequestDuration.observe({ provider: this.provider.name, outcome: 'error' }, (Date.now() - startedAt) / 1000);
+        }
+        if (this.currentSignal()?.aborted || !isTransientError(error) || attempt > this.recovery.maxRetries) throw error;
+        
+        const delayMs = backoffDelay(attempt, this.recovery);
+        this.log.warn(`Model request failed, retrying in ${delayMs}ms`, error);
+        this.addHistory('retry', {
+          kind: 'transient',
+          phase: this.state.status,
+          attempt,
+          error: error instanceof Error ? error.message : String(error),
+          delayMs,
+        });
+        await sleep(delayMs, this.currentSignal());
+      }
+    }
+    
+    // 使用量を報告しないプロバイダーでは会話の文字数から推定する
+    const tokens = response.usage ?? {
+      promptTokens: this.conversation.reduce((sum, message) => sum + estimateTokens(message.content), 0),
+      completionTokens: estimateTokens(response.content + (response.toolCalls.length > 0 ? JSON.stringify(response.toolCalls) : '')),
+    };
+    
+    this.appendMessage({
+      role: 'assistant',
+      content: response.content,
+      toolCalls: response.toolCalls,
+    });
+    this.recordUsage(modelCallUsage(this.config.modelName, tokens, latencyMs, !response.usage));
+    
+    return response;
+  }
+
+  /**
+   * 使用量をタスクと実行中のフェーズに加算し、予算を超えていないか確認する
+   */
+  private recordUsage(delta: UsageTotals) {
+    this.phaseUsage = sumUsage([this.phaseUsage, delta]);
+    this.updateState({
+      usage: addTaskUsage(this.state.usage ?? emptyTaskUsage(), this.state.status, delta),
+    });
+    this.enforceBudget();
+  }
+
+  /**
+   * 前回のフェーズの記録以降の使用量を取り出す（使用量がなければ undefined）
+   */
+  private takePhaseUsage(): PhaseUsage | undefined {
+    const usage = this.phaseUsage;
+    this.phaseUsage = emptyUsage();
+    if (usage.modelCalls === 0 && usage.toolCalls === 0) return undefined;
+    return { ...usage, model: this.config.modelName };
+  }
+
+  /**
+   * モデルの生成途中の出力を message-delta として通知するストリームを作成する
+   * トークンごとに通知すると件数が多すぎるため、一定間隔でまとめて送る
+   */
+  private createMessageStream() {
+    const base = { taskId: this.state.taskId, messageId: uuidv4(), phase: this.state.status };
+    let pending = '';
+    let timer: NodeJS.Timeout | null = null;
+    
+    const send = (delta: MessageDelta) => this.emit({ type: 'message-delta', data: delta });
+    const flush = () => {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      if (!pending) return;
+      send({ ...base, delta: pending, done: false });
+      pending = '';
+    };
+    
+    return {
+      push: (token: string) => {
+        pending += token;
+        if (!timer) timer = setTimeout(flush, STREAM_FLUSH_INTERVAL);
+      },
+      finish: (content: string) => {
+        flush();
+        send({ ...base, delta: '', done: true, content });
+      },
+      // 失敗した生成の途中までの出力は破棄させる（再試行では別のIDで送り直す）
+      fail: () => {
+        if (timer) clearTimeout(timer);
+        timer = null;
+        pending = '';
+        send({ ...base, delta: '', done: true, failed: true });
+      },
+    };
+  }
+  
   /**
    * タスクの計画を立てる
    */
   private async planTask(task: string): Promise<void> {
     try {
-      // タスクを分析して計画を立てる（ここでは単純な例）
-      // 実際には、LLMを使用してタスクを分解する
-      const plan = [
-        `タスク "${task}" の情報収集`,
-        `タスク "${task}" の分析`,
-        `タスク "${task}" の実行`,
-        `タスク "${task}" の結果のまとめ`,
-      ];
+      // LLMにタスクを分解させる
+      const context = buildTaskContext(this.previousTasks, CONTEXT_TOKEN_BUDGET);
+      const response = await this.prompt(buildPlanPrompt(task, this.tools.getDefinitions(), context, this.state.attachments ?? []));
+      const parsed = parseJsonReply<{ steps?: unknown }>(response.content);
+      const plan = Array.isArray(parsed?.steps) ? createPlan(parsed.steps as PlanStepInput[]) : [];
       
-      // 少し待機して計画プロセスをシミュレート
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      if (plan.length === 0) {
+        throw new Error('Failed to parse plan from model response');
+      }
       
-      this.updateState({
-        plan,
-        progress: 10,
+      this.setPlan(plan, {
+        ...this.measureProgress(plan),
         history: [
           ...this.state.history,
           {
             action: 'planning',
             result: plan,
             timestamp: Date.now(),
+            usage: this.takePhaseUsage(),
           },
         ],
       });
     } catch (error) {
-      console.error('Error in planning:', error);
+      // 中止された場合はエラー扱いにせず startTask に委ねる
+      if (this.isCancelled()) throw error;
+      this.log.error('Error in planning', error);
       this.updateState({
         status: 'error',
         error: error instanceof Error ? error.message : String(error),
       });
+      throw error;
+    }
+  }
+
+  /**
+   * タスク全体の実行ステップ数・実行時間の上限を超えていないか確認する
+   */
+  private enforceRunLimits() {
+    const { maxIterations } = this.recovery;
+    if (this.iterations >= maxIterations) {
+      throw new Error(`Exceeded the maximum number of step executions (${maxIterations})`);
     }
+    this.enforceBudget();
+  }
+
+  /**
+   * タスクの実行時間・トークン数の予算を超えていないか確認する
+   * モデル・ツールの呼び出しのたびに確認し、超えた時点でタスクを終了させる
+   * 実行時間には一時停止・質問への回答待ち・承認待ちの時間を含めない
+   */
+  private enforceBudget() {
+    const { maxWallTimeMs, maxTaskTokens } = this.recovery;
+    const elapsedMs = Date.now() - this.runStartedAt - this.idleMs;
+    if (elapsedMs > maxWallTimeMs) {
+      throw new BudgetExceededError(`Time budget exceeded: ran for ${Math.round(elapsedMs / 1000)}s of ${Math.round(maxWallTimeMs / 1000)}s allowed`);
+    }
+    const usedTokens = this.state.usage?.totalTokens ?? 0;
+    if (maxTaskTokens > 0 && usedTokens > maxTaskTokens) {
+      throw new BudgetExceededError(`Token budget exceeded: used ${usedTokens} of ${maxTaskTokens} tokens allowed`);
+    }
+  }
+
+  /**
+   * 制限時間付きでステップを実行し、失敗したらエラー内容を伝えてモデルに修正させる
+   * 修正の回数を使い切った場合は例外にせず、失敗した結果として観察フェーズに渡す
+   */
+  private async executeWithRecovery(step: PlanStep): Promise<any> {
+    let repairOf: string | null = null;
+    
+    for (let repair = 0; ; repair++) {
+      this.iterations++;
+      const controller = createTimeoutController(
+        this.abortController?.signal,
+        this.recovery.stepTimeoutMs,
+        `Step "${step.title}" timed out after ${this.recovery.stepTimeoutMs}ms`,
+      );
+      this.stepController = controller;
+      
+      try {
+        return await this.executeStep(step, repairOf);
+      } catch (error) {
+        if (this.isCancelled() || error instanceof BudgetExceededError) throw error;
+        
+        // 制限時間の超過で中止された場合は、中止による二次的なエラーより超過を伝える
+        const cause = controller.signal.aborted ? controller.signal.reason : error;
+        const message = cause instanceof Error ? cause.message : String(cause);
+        this.closeDanglingToolCalls(message);
+        
+        if (repair >= this.recovery.maxRepairAttempts || this.iterations >= this.recovery.maxIterations) {
+          return this.recordStepResult(step, { output: `Step failed: ${message}`, toolInvocations: [], error: message });
+        }
+        
+        this.addHistory('retry', { kind: 'repair', stepId: step.id, attempt: repair + 1, error: message });
+        this.setPlan(updateStep(this.state.plan, step.id, { attempts: step.attempts + repair + 2 }));
+        repairOf = message;
+      } finally {
+        controller.dispose();
+        this.stepController = null;
+      }
+    }
+  }
+
+  /**
+   * 中断した実行で応答のないツール呼び出しに失敗の結果を返し、会話の整合性を保つ
+   */
+  private closeDanglingToolCalls(reason: string) {
+    const lastAssistant = [...this.conversation].reverse().find(message => message.role === 'assistant');
+    if (!lastAssistant?.toolCalls?.length) return;
+    
+    const answered = new Set(this.conversation.filter(message => message.role === 'tool').map(message => message.toolCallId));
+    for (const call of lastAssistant.toolCalls) {
+      if (answered.has(call.id)) continue;
+      this.appendMessage({
+        role: 'tool',
+        content: JSON.stringify({ success: false, error: `Not executed: ${reason}` }),
+        toolCallId: call.id,
+        name: call.name,
+      });
+    }
+  }
+
+  /**
+   * ステップの実行結果を結果一覧と履歴に記録する
+   */
+  private recordStepResult(step: PlanStep, outcome: { output: string; toolInvocations: ToolInvocation[]; error?: string }) {
+    const result = { stepId: step.id, stepCompleted: step.title, ...outcome };
+    
+    this.updateState({
+      results: [...this.state.results, result],
+      plan: updateStep(this.state.plan, step.id, { resultRef: this.state.results.length }),
+      history: [
+        ...this.state.history,
+        {
+          action: 'execution',
+          result,
+          timestamp: Date.now(),
+          usage: this.takePhaseUsage(),
+        },
+      ],
+    });
+    
+    return result;
   }
 
   /**
    * ステップを実行する
+   * repairOf を指定した場合は、前回の失敗の内容を伝えて実行し直させる
    */
-  private async executeStep(step: string): Promise<any> {
+  private async executeStep(step: PlanStep, repairOf: string | null = null): Promise<any> {
     try {
-      // ステップの実行をシミュレート
-      console.log(`Executing step: ${step}`);
+      this.log.info(`Executing step: ${step.title}`);
       
-      // 実際には、ステップに応じたアクションを実行する
-      await new Promise(resolve => setTimeout(resolve, 1500));
+      const tools = this.tools.getDefinitions();
+      const content = repairOf ? buildRepairPrompt(step, repairOf) : buildExecutePrompt(step, this.state.plan);
+      let response = await this.prompt(content, tools);
+      const toolInvocations: ToolInvocation[] = [];
       
-      const result = { stepCompleted: step, output: `${step} の実行結果` };
+      // モデルがツールを要求する限り実行し、結果を会話に返す
+      for (let round = 0; response.toolCalls.length > 0 && round < MAX_TOOL_ROUNDS; round++) {
+        for (const call of response.toolCalls) {
+          const invocation = await this.invokeTool(call);
+          toolInvocations.push(invocation);
+        }
+        response = await this.complete(tools);
+      }
       
-      this.updateState({
-        results: [...this.state.results, result],
-        history: [
-          ...this.state.history,
-          {
-            action: 'execution',
-            result,
-            timestamp: Date.now(),
-          },
-        ],
-      });
-      
-      return result;
+      return this.recordStepResult(step, { output: response.content, toolInvocations });
     } catch (error) {
-      console.error(`Error executing step "${step}":`, error);
-      this.updateState({
-        status: 'error',
-        error: error instanceof Error ? error.message : String(error),
-      });
+      // 失敗からの回復は executeWithRecovery に委ねる
+      if (!this.isCancelled()) this.log.error(`Error executing step "${step.title}"`, error);
       throw error;
     }
   }
 
+  /**
+   * ツールを1回呼び出し、結果を履歴と会話に記録する
+   * 検証エラーや実行エラーはループを止めず、観察結果としてモデルに返す
+   */
+  private async invokeTool(call: ToolCall): Promise<ToolInvocation> {
+    this.currentSignal()?.throwIfAborted();
+    this.log.info(`Invoking tool: ${call.name}`, call.arguments);
+    
+    this.updateState({
+      activeTool: { id: call.id, name: call.name, output: [] },
+    });
+    
+    const invocation = await this.tools.invoke(call, {
+      sessionId: this.sessionId,
+      signal: this.currentSignal(),
+      timeoutMs: this.recovery.toolTimeoutMs,
+      onOutput: (chunk) => {
+        const activeTool = this.state.activeTool;
+        if (!activeTool || activeTool.id !== call.id) return;
+        this.updateState({
+          activeTool: { ...activeTool, output: [...activeTool.output, chunk] },
+        });
+      },
+      onFileChange: (change) => {
+        this.updateState({
+          touchedFiles: [...this.state.touchedFiles, change],
+        });
+      },
+      ask: (question) => this.ask(question),
+      authorize: (toolCall, tool) => this.authorizeTool(toolCall, tool),
+    });
+    
+    this.appendMessage({
+      role: 'tool',
+      content: formatToolResult(invocation),
+      toolCallId: call.id,
+      name: call.name,
+    });
+    
+    this.updateState({
+      activeTool: null,
+      history: [
+        ...this.state.history,
+        {
+          action: 'tool-call',
+          result: invocation,
+          timestamp: Date.now(),
+        },
+      ],
+    });
+    // モデルが存在しないツール名を指定した場合はラベルの種類が増えすぎないようまとめる
+    const toolLabel = { tool: this.tools.get(call.name) ? call.name : 'unknown' };
+    getMetrics().toolCalls.inc(toolLabel);
+    if (!invocation.success) getMetrics().toolErrors.inc(toolLabel);
+    this.recordUsage(toolCallUsage(invocation.durationMs));
+    
+    return invocation;
+  }
+
   /**
    * 結果を観察する
    */
   private async observeResult(result: any): Promise<any> {
     try {
-      // 結果の観察をシミュレート
-      console.log(`Observing result:`, result);
+      this.log.debug('Observing result', result);
       
-      // 実際には、結果を分析してフィードバックを得る
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      // 修正しても実行できなかったステップは、モデルに問い合わせずに失敗として扱う
+      if (result.error) {
+        const observation = {
+          analysisOf: result,
+          success: false,
+          feedback: `手順の実行に失敗しました: ${result.error}`,
+        };
+        this.addHistory('observation', observation);
+        return observation;
+      }
       
-      const observation = { analysisOf: result, feedback: '正常に完了' };
+      // 結果をLLMに評価させる
+      const response = await this.prompt(buildObservePrompt(result.stepCompleted, String(result.output), result.toolInvocations));
+      const parsed = parseJsonReply<{ success?: boolean; feedback?: string }>(response.content);
+      
+      const observation = {
+        analysisOf: result,
+        success: parsed?.success ?? true,
+        feedback: parsed?.feedback ?? response.content,
+      };
       
       this.updateState({
         history: [
@@ -250,13 +1312,15 @@ export class AgentLoop {
             action: 'observation',
             result: observation,
             timestamp: Date.now(),
+            usage: this.takePhaseUsage(),
           },
         ],
       });
       
       return observation;
     } catch (error) {
-      console.error('Error in observation:', error);
+      if (this.isCancelled()) throw error;
+      this.log.error('Error in observation', error);
       this.updateState({
         status: 'error',
         error: error instanceof Error ? error.message : String(error),
@@ -267,33 +1331,36 @@ export class AgentLoop {
 
   /**
    * 計画を更新する
+   * 観察結果に基づいてモデルが指示した挿入・削除・並べ替え・分割を未着手のステップに適用する
    */
   private async updatePlan(observation: any): Promise<boolean> {
     try {
-      // 計画の更新をシミュレート
-      console.log(`Updating plan based on observation:`, observation);
+      this.log.debug('Updating plan based on observation', observation);
       
-      // 実際には、観察結果に基づいて計画を調整する
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      const response = await this.prompt(buildUpdatePrompt(this.state.plan, observation.feedback));
+      const parsed = parseJsonReply<{ continue?: boolean; operations?: unknown }>(response.content);
+      const operations = Array.isArray(parsed?.operations) ? parsed.operations as PlanOperation[] : [];
       
-      const updatedPlan = [...this.state.plan]; // この例では計画を変更しない
+      const before = this.state.plan;
+      const updatedPlan = skipBlockedSteps(applyPlanOperations(before, operations));
       
-      this.updateState({
-        plan: updatedPlan,
+      this.setPlan(updatedPlan, {
         history: [
           ...this.state.history,
           {
             action: 'plan-update',
-            result: { updatedPlan },
+            result: { operations, changes: diffPlans(before, updatedPlan) },
             timestamp: Date.now(),
+            usage: this.takePhaseUsage(),
           },
         ],
       });
       
       // true を返すと次のステップへ進む、false を返すとループを終了する
-      return true;
+      return parsed?.continue !== false;
     } catch (error) {
-      console.error('Error in plan update:', error);
+      if (this.isCancelled()) throw error;
+      this.log.error('Error in plan update', error);
       this.updateState({
         status: 'error',
         error: error instanceof Error ? error.message : String(error),
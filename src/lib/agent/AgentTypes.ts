@@ -2,6 +2,8 @@
  * エージェントの状態を表す型定義ファイル
  */
 
+import { RiskAssessment } from '@/lib/tools/PolicyEngine';
+
 // エージェントの状態
 export type AgentStatus = 
   | 'idle'        // 待機中
@@ -9,7 +11,12 @@ export type AgentStatus =
   | 'executing'   // 実行中
   | 'observing'   // 観察中
   | 'updating'    // 更新中
+  | 'paused'      // 一時停止中
+  | 'waiting-for-user' // ユーザーの回答待ち
+  | 'waiting-for-approval' // 危険な操作の承認待ち
   | 'completed'   // 完了
+  | 'cancelled'   // 中止
+  | 'interrupted' // サーバー停止により中断（チェックポイントから再開可能）
   | 'error';      // エラー
 
 // エージェントのアクション履歴
@@ -19,17 +26,34 @@ export type AgentAction = {
   timestamp: number; // タイムスタンプ
 };
 
+// メッセージに添付したファイル
+export type Attachment = {
+  name: string;
+  type: string;
+  url: string;
+  path?: string;  // ワークスペースからの相対パス（アップロードしたファイルの場合）
+  size?: number;  // バイト数
+};
+
 // メッセージの型
 export type Message = {
   id: string;
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: number;
-  attachments?: {
-    name: string;
-    type: string;
-    url: string;
-  }[];
+  attachments?: Attachment[];
+};
+
+// タスクで作成・変更されたファイルの成果物（タスク終了時の内容を保存したもの）
+export type Artifact = {
+  id: string;
+  sessionId: string;
+  taskId: string;
+  path: string;     // ワークスペースからの相対パス
+  name: string;     // ファイル名
+  mimeType: string;
+  size: number;     // バイト数
+  createdAt: number;
 };
 
 // エージェントの設定
@@ -40,8 +64,105 @@ export type AgentConfig = {
   systemPrompt: string;
 };
 
+// エージェントからユーザーへの質問
+export type AgentQuestion = {
+  id: string;
+  question: string;
+  choices?: string[];      // 指定時は選択式
+  timeoutMs?: number;      // 指定時は期限切れで defaultAnswer を採用する
+  defaultAnswer?: string;
+  askedAt: number;
+};
+
+// 危険な操作の承認リクエスト
+export type ApprovalRequest = {
+  id: string;
+  toolCallId: string;
+  input: Record<string, any>;
+  assessment: RiskAssessment;
+  requestedAt: number;
+};
+
+// 計画のステップの状態（未着手・処理中・完了・失敗・スキップ）
+export type PlanStepStatus = 'pending' | 'running' | 'done' | 'failed' | 'skipped';
+
+// 計画のステップ
+export type PlanStep = {
+  id: string;               // 計画内で一意なID（s1, s2, ...）
+  title: string;
+  status: PlanStepStatus;
+  dependencies: string[];   // 先に完了している必要があるステップのID
+  weight: number;           // 作業量の目安（進捗率の配分に使用、標準は 1）
+  attempts: number;         // 実行した回数
+  resultRef: number | null; // 最新の実行結果の AgentState.results 内の位置
+};
+
+// 更新フェーズでモデルが指示する計画の操作
+export type PlanOperation =
+  | { op: 'insert'; title: string; after?: string | null; dependencies?: string[] }
+  | { op: 'remove'; id: string }
+  | { op: 'move'; id: string; after?: string | null }
+  | { op: 'split'; id: string; into: string[] };
+
+// 計画の変更点（UI に差分として通知する）
+export type PlanChange =
+  | { type: 'added'; step: PlanStep; index: number }
+  | { type: 'removed'; stepId: string }
+  | { type: 'moved'; stepId: string; index: number }
+  | { type: 'status'; stepId: string; status: PlanStepStatus };
+
+// エージェントループの再開位置（各フェーズの完了時に記録する）
+export type LoopCheckpoint = {
+  stepId: string | null;    // 実行中のステップ（null なら次に実行できるステップから）
+  next: 'execute' | 'observe' | 'update' | 'complete'; // 次に実行するフェーズ
+  result: any | null;       // stepId のステップの実行結果（ツールの出力を含む）
+  observation: any | null;  // stepId のステップの観察結果
+  messageCount: number;     // この時点までのモデルとの会話の件数
+  savedAt: number;
+};
+
+// モデルの生成途中の出力（message-delta として通知する）
+export type MessageDelta = {
+  taskId: string | null;
+  messageId: string;   // 1回のモデル呼び出しごとに一意なID
+  phase: AgentStatus;  // 生成したフェーズ（計画・実行・観察・更新）
+  delta: string;       // 前回の通知以降に生成されたテキスト
+  done: boolean;       // 生成が終わったか
+  content?: string;    // done の場合の全文
+  failed?: boolean;    // 生成が失敗し、途中までの出力を破棄する場合
+};
+
+// モデル・ツールの使用量の集計
+export type UsageTotals = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedTokens: number; // うちモデルが使用量を報告せず推定したトークン数
+  cost: number;            // 料金（USD、料金表にないモデルは 0）
+  modelCalls: number;
+  modelLatencyMs: number;  // モデル呼び出しの所要時間の合計（再試行の待ち時間を含まない）
+  toolCalls: number;
+  toolDurationMs: number;
+};
+
+// フェーズ1回分の使用量（履歴のエントリに記録する）
+export type PhaseUsage = UsageTotals & {
+  model: string;
+};
+
+// タスクの使用量（フェーズごとの内訳を含む）
+export type TaskUsage = UsageTotals & {
+  byPhase: Partial<Record<AgentStatus, UsageTotals>>;
+};
+
+// 承認リクエストへの決定
+export type ApprovalDecision = 'approve' | 'deny' | 'always-allow';
+
 // WebSocketメッセージのペイロード
+// エージェントの状態は接続時に state-snapshot（{version, state}）で全体を送り、
+// 以後は state-patch（{version, operations}）で直前の版からの差分だけを送る
 export type WebSocketPayload = {
-  type: 'state-update' | 'notification' | 'question' | 'error';
+  type: 'state-snapshot' | 'state-patch' | 'queue-update' | 'plan-diff' | 'message-delta' | 'notification' | 'question' | 'approval-request' | 'error';
   data: any;
+  id?: number; // セッション内のイベントID（再接続時の再送に使用）
 };
@@ -0,0 +1,143 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Attachment } from '@/lib/agent/AgentTypes';
+import { getLogger } from '@/lib/logging/logger';
+
+// キューで実行を待っているタスク
+export type QueuedTask = {
+  id: string;
+  sessionId: string;
+  task: string;
+  attachments: Attachment[];
+  enqueuedAt: number;
+  resume?: boolean; // 中断したタスクをチェックポイントから再開する
+};
+
+// キューがタスクの実行状況を知り、実行を始めるための関数
+export type TaskQueueHooks = {
+  start: (item: QueuedTask) => void;        // タスクを開始する（完了は待たない）
+  isRunning: (sessionId: string) => boolean; // セッションでタスクを実行中か
+  runningCount: () => number;                // 全セッションで実行中のタスク数
+  onChange: (sessionId: string) => void;     // セッションのキューが変化した
+};
+
+/**
+ * セッションごとの FIFO キューと、全セッション共通の同時実行数の上限を管理するクラス
+ * 各セッションでは1度に1つのタスクだけを実行し、空きができたら最も古く追加されたタスクから開始する
+ */
+export class TaskQueue {
+  private queues = new Map<string, QueuedTask[]>();
+
+  constructor(
+    private readonly limit: number,
+    private readonly hooks: TaskQueueHooks,
+  ) {}
+
+  /**
+   * 同時実行数の上限を取得する
+   */
+  getLimit(): number {
+    return this.limit;
+  }
+
+  /**
+   * タスクをキューの末尾に追加し、可能であればすぐに開始する
+   * チェックポイントからの再開は、後から追加された新しいタスクより先に実行するため先頭に追加する
+   */
+  enqueue(sessionId: string, task: string, attachments: Attachment[] = [], resume = false): QueuedTask {
+    const item: QueuedTask = { id: uuidv4(), sessionId, task, attachments, enqueuedAt: Date.now() };
+    if (resume) item.resume = true;
+    const queue = this.list(sessionId);
+    this.queues.set(sessionId, resume ? [item, ...queue] : [...queue, item]);
+    this.hooks.onChange(sessionId);
+    this.schedule();
+    return item;
+  }
+
+  /**
+   * セッションのキューを先頭から順に取得する
+   */
+  list(sessionId: string): QueuedTask[] {
+    return [...(this.queues.get(sessionId) ?? [])];
+  }
+
+  /**
+   * 全セッションのキューにあるタスクの数を取得する
+   */
+  size(): number {
+    let size = 0;
+    for (const queue of this.queues.values()) size += queue.length;
+    return size;
+  }
+
+  /**
+   * キュー内の位置（1始まり）を取得する（キューにない場合は 0）
+   */
+  position(sessionId: string, id: string): number {
+    return this.list(sessionId).findIndex(item => item.id === id) + 1;
+  }
+
+  /**
+   * キュー内のタスクを指定した位置（1始まり）へ移動する
+   */
+  move(sessionId: string, id: string, position: number): boolean {
+    const queue = this.list(sessionId);
+    const index = queue.findIndex(item => item.id === id);
+    if (index < 0) return false;
+
+    const [item] = queue.splice(index, 1);
+    const target = Math.min(Math.max(Math.floor(position), 1), queue.length + 1) - 1;
+    queue.splice(target, 0, item);
+    this.queues.set(sessionId, queue);
+    this.hooks.onChange(sessionId);
+    return true;
+  }
+
+  /**
+   * キューからタスクを取り除く
+   */
+  remove(sessionId: string, id: string): boolean {
+    const queue = this.list(sessionId);
+    const remaining = queue.filter(item => item.id !== id);
+    if (remaining.length === queue.length) return false;
+
+    this.setQueue(sessionId, remaining);
+    this.hooks.onChange(sessionId);
+    return true;
+  }
+
+  /**
+   * 空きがある限り、待機中のタスクを開始する
+   * タスクの終了時にも呼び出し、次のタスクを開始させる
+   */
+  schedule(): void {
+    while (this.hooks.runningCount() < this.limit) {
+      // 実行中でないセッションの先頭のうち、最も古く追加されたタスクを選ぶ
+      let next: QueuedTask | null = null;
+      for (const [sessionId, queue] of this.queues) {
+        if (queue.length === 0 || this.hooks.isRunning(sessionId)) continue;
+        if (!next || queue[0].enqueuedAt < next.enqueuedAt) next = queue[0];
+      }
+      if (!next) return;
+
+      this.setQueue(next.sessionId, this.list(next.sessionId).slice(1));
+      this.hooks.start(next);
+      this.hooks.onChange(next.sessionId);
+
+      // 開始できなかったタスクはキューから取り除いたまま警告だけ出す
+      if (!this.hooks.isRunning(next.sessionId)) {
+        getLogger({ sessionId: next.sessionId }).warn(`Queued task ${next.id} did not start`);
+      }
+    }
+  }
+
+  /**
+   * セッションのキューを置き換える（空になったら削除する）
+   */
+  private setQueue(sessionId: string, queue: QueuedTask[]) {
+    if (queue.length === 0) {
+      this.queues.delete(sessionId);
+    } else {
+      this.queues.set(sessionId, queue);
+    }
+  }
+}
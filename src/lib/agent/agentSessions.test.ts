@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { SessionEvent, subscribeToSession, updateSessionSettings } from '@/lib/agent/agentSessions';
+import { getArtifactStore } from '@/lib/storage/ArtifactStore';
+import { getSessionStore } from '@/lib/storage/SessionStore';
+
+describe('subscribeToSession', () => {
+  it('does not create a session for an unknown session ID', () => {
+    const events: SessionEvent[] = [];
+    const unsubscribe = subscribeToSession('unknown-session', event => events.push(event));
+
+    expect(events).toEqual([]);
+    expect(getSessionStore().getSession('unknown-session')).toBeNull();
+    unsubscribe();
+  });
+
+  it('sends the state to waiting subscribers once the session is created', () => {
+    const events: SessionEvent[] = [];
+    const unsubscribe = subscribeToSession('created-later', event => events.push(event));
+
+    updateSessionSettings('created-later', { approvalThreshold: 'high' });
+
+    expect(getSessionStore().getSession('created-later')).not.toBeNull();
+    expect(events.map(event => event.payload.type)).toEqual(['state-snapshot', 'queue-update']);
+
+    unsubscribe();
+    updateSessionSettings('created-later', { approvalThreshold: 'medium' });
+    expect(events).toHaveLength(2);
+  });
+});
+
+describe('session IDs', () => {
+  it('rejects invalid session IDs before saving the session', () => {
+    expect(() => updateSessionSettings('..', { approvalThreshold: 'high' })).toThrow(/Invalid session ID/);
+    expect(() => updateSessionSettings('a/b', { approvalThreshold: 'high' })).toThrow(/Invalid session ID/);
+    expect(getSessionStore().getSession('..')).toBeNull();
+  });
+
+  it('refuses to remove artifacts outside the artifact directory', async () => {
+    await expect(getArtifactStore().removeSession('..')).rejects.toThrow(/invalid session ID/);
+    await expect(getArtifactStore().removeSession('')).rejects.toThrow(/invalid session ID/);
+  });
+});
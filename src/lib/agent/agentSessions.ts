@@ -0,0 +1,512 @@
+import fs from 'fs/promises';
+import { AgentLoop, AgentState } from '@/lib/agent/AgentLoop';
+import { Attachment, UsageTotals, WebSocketPayload } from '@/lib/agent/AgentTypes';
+import { QueuedTask, TaskQueue } from '@/lib/agent/TaskQueue';
+import { toTaskRecord } from '@/lib/agent/taskContext';
+import { sumUsage } from '@/lib/agent/usage';
+import { getLogger } from '@/lib/logging/logger';
+import { getArtifactStore } from '@/lib/storage/ArtifactStore';
+import { getSessionStore } from '@/lib/storage/SessionStore';
+import { ApprovalThreshold, PolicyEngine } from '@/lib/tools/PolicyEngine';
+import { getWorkspaceRoot } from '@/lib/tools/workspace';
+import { createPatch } from '@/lib/utils/jsonPatch';
+import { getSessionDirectory, isValidSessionId } from '@/lib/utils/sessionId';
+
+// 再接続時の再送用に保持するイベント数
+const MAX_BUFFERED_EVENTS = 100;
+// この時間操作のないセッションをメモリから解放する（ミリ秒）
+const SESSION_IDLE_TIMEOUT = Number(process.env.AGENT_SESSION_IDLE_MS) || 30 * 60 * 1000;
+// この時間更新のないセッションを永続化ストアとワークスペースから削除する（ミリ秒）
+const SESSION_TTL = Number(process.env.AGENT_SESSION_TTL_MS) || 7 * 24 * 60 * 60 * 1000;
+// 解放・削除の確認間隔（ミリ秒）
+const SWEEP_INTERVAL = 5 * 60 * 1000;
+// 全セッションで同時に実行するタスク数の上限（ローカルのモデルサーバーの過負荷を防ぐ）
+const MAX_CONCURRENT_TASKS = Number(process.env.AGENT_MAX_CONCURRENT_TASKS) || 2;
+
+// タスクが実行中でない状態（これ以外の状態で保存されたタスクはサーバー停止で中断されたもの）
+const TERMINAL_STATUSES: AgentState['status'][] = ['idle', 'completed', 'cancelled', 'interrupted', 'error'];
+
+// ID付きのセッションイベント
+export type SessionEvent = {
+  id: number;
+  payload: WebSocketPayload;
+};
+
+// セッションごとのエージェントとイベント配信路
+type SessionChannel = {
+  agent: AgentLoop;
+  nextEventId: number;
+  events: SessionEvent[];
+  listeners: Set<(event: SessionEvent) => void>;
+  // 配信済みの状態とその版（差分の作成元）
+  published: { state: AgentState; version: number };
+  lastActivity: number;
+  // 永続化済みの状態（ツール出力だけの更新では保存しないための比較用）と履歴の件数
+  persisted: { state: AgentState | null; historyCount: number };
+};
+
+/**
+ * セッションIDごとのエージェントを保持するレジストリ
+ * API Routes とカスタムサーバー（WebSocket）は別々にバンドルされるため、
+ * モジュール変数ではなく globalThis 上で共有する
+ */
+const globalForAgents = globalThis as unknown as {
+  __winmanusSessions?: Map<string, SessionChannel>;
+  __winmanusSweeper?: NodeJS.Timeout;
+  __winmanusQueue?: TaskQueue;
+  __winmanusWaiting?: Map<string, Set<(event: SessionEvent) => void>>;
+};
+
+function getRegistry(): Map<string, SessionChannel> {
+  if (!globalForAgents.__winmanusSessions) {
+    globalForAgents.__winmanusSessions = new Map();
+  }
+  if (!globalForAgents.__winmanusSweeper) {
+    globalForAgents.__winmanusSweeper = setInterval(() => {
+      sweepSessions().catch(error => getLogger().error('Error in session sweep', error));
+    }, SWEEP_INTERVAL);
+    globalForAgents.__winmanusSweeper.unref();
+  }
+  return globalForAgents.__winmanusSessions;
+}
+
+/**
+ * まだ作成されていないセッションの購読者（セッションの作成時に配信路へ移す）
+ */
+function getWaitingListeners(): Map<string, Set<(event: SessionEvent) => void>> {
+  if (!globalForAgents.__winmanusWaiting) {
+    globalForAgents.__winmanusWaiting = new Map();
+  }
+  return globalForAgents.__winmanusWaiting;
+}
+
+/**
+ * タスクキューを取得する
+ */
+function getQueue(): TaskQueue {
+  if (!globalForAgents.__winmanusQueue) {
+    globalForAgents.__winmanusQueue = new TaskQueue(MAX_CONCURRENT_TASKS, {
+      start: (item) => {
+        const { agent } = getChannel(item.sessionId, true);
+        if (item.resume) {
+          resumeFromCheckpoint(agent);
+        } else {
+          agent.startTask(item.task, item.attachments);
+        }
+      },
+      isRunning: (sessionId) => !!getRegistry().get(sessionId)?.agent.isRunning(),
+      runningCount: () => [...getRegistry().values()].filter(channel => channel.agent.isRunning()).length,
+      onChange: (sessionId) => {
+        publishToSession(sessionId, { type: 'queue-update', data: describeQueue(sessionId) });
+      },
+    });
+  }
+  return globalForAgents.__winmanusQueue;
+}
+
+/**
+ * セッションの配信路を取得する
+ * メモリになければ永続化ストアから復元し、create が true ならそれもなければ新規作成する
+ */
+function getChannel(sessionId: string, create: true): SessionChannel;
+function getChannel(sessionId: string, create: boolean): SessionChannel | undefined;
+function getChannel(sessionId: string, create: boolean): SessionChannel | undefined {
+  const registry = getRegistry();
+  let channel = registry.get(sessionId);
+  if (channel) {
+    channel.lastActivity = Date.now();
+    return channel;
+  }
+
+  // 不正なセッションIDは保存しない（ワークスペース・成果物のディレクトリ名に使われる）
+  if (!isValidSessionId(sessionId)) {
+    if (!create) return undefined;
+    throw new Error(`Invalid session ID: ${sessionId}`);
+  }
+
+  const store = getSessionStore();
+  const session = store.getSession(sessionId);
+  if (!session && !create) return undefined;
+
+  const latest = session ? store.getLatestTask(sessionId) : null;
+  let initialState: Partial<AgentState> | undefined;
+  if (latest) {
+    initialState = { ...latest.state, history: store.getHistory(latest.id) };
+    // 実行途中で停止したタスクは中断として記録し直す（チェックポイントから再開できる）
+    if (!TERMINAL_STATUSES.includes(latest.status)) {
+      initialState = {
+        ...initialState,
+        status: 'interrupted',
+        error: 'Interrupted by server restart',
+        activeTool: null,
+        pendingQuestion: null,
+        pendingApproval: null,
+      };
+      store.saveTask(sessionId, latest.id, initialState as AgentState);
+    }
+  }
+
+  // 過去のタスクは次のタスクの計画に文脈として渡す
+  const previousTasks = session
+    ? store.listTasks(sessionId).map(task => toTaskRecord({ ...task.state, taskId: task.id }, task.updatedAt))
+    : [];
+
+  const agent = new AgentLoop({
+    sessionId,
+    config: session?.modelName ? { modelName: session.modelName } : undefined,
+    policy: session?.approvalThreshold ? new PolicyEngine(session.approvalThreshold) : undefined,
+    initialState,
+    previousTasks,
+    captureArtifacts: (taskId, paths) => getArtifactStore().capture(sessionId, taskId, paths),
+  });
+  channel = {
+    agent,
+    nextEventId: 1,
+    events: [],
+    listeners: new Set(),
+    published: { state: agent.getState(), version: 0 },
+    lastActivity: Date.now(),
+    persisted: { state: agent.getState(), historyCount: initialState?.history?.length ?? 0 },
+  };
+  registry.set(sessionId, channel);
+  if (!session) {
+    persistSessionSettings(channel);
+  }
+
+  // エージェントの状態更新と、質問・通知などのイベントを配信し、永続化する
+  agent.onStateUpdate((state) => {
+    persistState(sessionId, state);
+    publishStatePatch(sessionId, state);
+    
+    // タスクの終了後（startTask の後処理が済んでから）に次のタスクを開始する
+    if (TERMINAL_STATUSES.includes(state.status)) {
+      setImmediate(() => getQueue().schedule());
+    }
+  });
+  agent.onEvent((payload) => {
+    publishToSession(sessionId, payload);
+  });
+  agent.onMessage((taskId, message) => {
+    try {
+      getSessionStore().appendMessage(taskId, message);
+    } catch (error) {
+      getLogger({ sessionId, taskId }).error('Error persisting message', error);
+    }
+  });
+
+  // セッションの作成を待っていた購読者に現在の状態を通知し、配信を始める
+  const waiting = getWaitingListeners().get(sessionId);
+  if (waiting) {
+    getWaitingListeners().delete(sessionId);
+    for (const listener of waiting) {
+      channel.listeners.add(listener);
+      sendCurrentState(sessionId, channel, listener);
+    }
+  }
+
+  return channel;
+}
+
+/**
+ * タスクの状態と新しい履歴を永続化する
+ * 実行中ツールの出力だけが変わった更新は書き込みを省く
+ */
+function persistState(sessionId: string, state: AgentState) {
+  const channel = getRegistry().get(sessionId);
+  if (!channel || !state.taskId) return;
+
+  const previous = channel.persisted.state;
+  const onlyToolOutput = previous?.taskId === state.taskId
+    && (Object.keys(state) as (keyof AgentState)[]).every(key => key === 'activeTool' || state[key] === previous[key]);
+  if (onlyToolOutput) return;
+
+  // 新しいタスクが始まったら履歴の件数を数え直す
+  const historyCount = previous?.taskId === state.taskId ? channel.persisted.historyCount : 0;
+
+  try {
+    const store = getSessionStore();
+    store.saveTask(sessionId, state.taskId, state);
+    if (state.history.length > historyCount) {
+      store.appendHistory(state.taskId, state.history.slice(historyCount));
+    }
+    channel.persisted = { state, historyCount: state.history.length };
+  } catch (error) {
+    getLogger({ sessionId, taskId: state.taskId }).error('Error persisting agent state', error);
+  }
+}
+
+/**
+ * セッションの設定（次のタスクのモデル・承認のしきい値）を永続化する
+ */
+function persistSessionSettings(channel: SessionChannel) {
+  try {
+    getSessionStore().saveSession(channel.agent.sessionId, {
+      modelName: channel.agent.getNextModelName(),
+      approvalThreshold: channel.agent.getApprovalThreshold(),
+    });
+  } catch (error) {
+    getLogger({ sessionId: channel.agent.sessionId }).error('Error persisting session settings', error);
+  }
+}
+
+/**
+ * 操作のないセッションをメモリから解放し、期限切れのセッションを削除する
+ */
+async function sweepSessions() {
+  const registry = getRegistry();
+  const now = Date.now();
+
+  for (const [sessionId, channel] of registry) {
+    const idle = !channel.agent.isRunning()
+      && channel.listeners.size === 0
+      && getQueue().list(sessionId).length === 0
+      && now - channel.lastActivity > SESSION_IDLE_TIMEOUT;
+    if (idle) {
+      registry.delete(sessionId);
+    }
+  }
+
+  const purged = getSessionStore().purgeSessionsBefore(now - SESSION_TTL, registry.keys());
+  for (const sessionId of purged) {
+    // ワークスペースのルート直下のディレクトリ以外は削除しない
+    const workspace = getSessionDirectory(getWorkspaceRoot(), sessionId);
+    if (!workspace) {
+      getLogger({ sessionId }).warn('Skipping file removal for invalid session ID');
+      continue;
+    }
+    await fs.rm(workspace, { recursive: true, force: true });
+    await getArtifactStore().removeSession(sessionId);
+  }
+  if (purged.length > 0) {
+    getLogger().info(`Purged ${purged.length} expired session(s)`, { sessionIds: purged });
+  }
+}
+
+/**
+ * セッションのエージェントを取得する
+ */
+export function getAgent(sessionId: string): AgentLoop | undefined {
+  return getChannel(sessionId, false)?.agent;
+}
+
+/**
+ * セッションのエージェントを取得する（なければ新規作成）
+ */
+export function getOrCreateAgent(sessionId: string): AgentLoop {
+  return getChannel(sessionId, true).agent;
+}
+
+/**
+ * タスクをセッションのキューに追加する
+ * 実行中のタスクがなく同時実行数に空きがあれば、すぐに開始される
+ */
+export function enqueueTask(sessionId: string, task: string, attachments: Attachment[] = []): { item: QueuedTask; position: number } {
+  getChannel(sessionId, true);
+  const queue = getQueue();
+  const item = queue.enqueue(sessionId, task, attachments);
+  return { item, position: queue.position(sessionId, item.id) };
+}
+
+/**
+ * セッションのキューの状態を取得する
+ */
+export function describeQueue(sessionId: string) {
+  const queue = getQueue();
+  return {
+    items: queue.list(sessionId).map((item, index) => ({ ...item, position: index + 1 })),
+    running: !!getRegistry().get(sessionId)?.agent.isRunning(),
+    limit: queue.getLimit(),
+  };
+}
+
+/**
+ * メモリ上のセッション数・実行中のタスク数・キューのタスク数を取得する
+ */
+export function countSessions(): { sessions: number; runningTasks: number; queuedTasks: number } {
+  const registry = getRegistry();
+  let runningTasks = 0;
+  for (const channel of registry.values()) {
+    if (channel.agent.isRunning()) runningTasks++;
+  }
+  return { sessions: registry.size, runningTasks, queuedTasks: getQueue().size() };
+}
+
+/**
+ * セッションで実行したタスクの使用量を合計する
+ */
+export function getSessionUsage(sessionId: string): UsageTotals & { tasks: number } {
+  const usages = getSessionStore().listTasks(sessionId).flatMap(task => (task.state.usage ? [task.state.usage] : []));
+  return { ...sumUsage(usages), tasks: usages.length };
+}
+
+/**
+ * キュー内のタスクを指定した位置（1始まり）へ移動する
+ */
+export function moveQueuedTask(sessionId: string, id: string, position: number): boolean {
+  return getQueue().move(sessionId, id, position);
+}
+
+/**
+ * キューからタスクを取り除く
+ */
+export function removeQueuedTask(sessionId: string, id: string): boolean {
+  return getQueue().remove(sessionId, id);
+}
+
+/**
+ * セッションのタスクを再開する
+ * 一時停止中ならそのまま再開し、中断・中止・エラーで終わったタスクはキューを経由して最後のチェックポイントから再開する
+ */
+export function resumeSessionTask(sessionId: string): boolean {
+  const agent = getAgent(sessionId);
+  if (!agent) return false;
+  if (agent.resume()) return true;
+  if (!agent.canResumeFromCheckpoint()) return false;
+
+  // 同時実行数の上限を守るため、新しいタスクと同じくキューで空きを待つ
+  const queue = getQueue();
+  if (!queue.list(sessionId).some(item => item.resume)) {
+    queue.enqueue(sessionId, agent.getState().currentTask!, [], true);
+  }
+  return true;
+}
+
+/**
+ * 中断したタスクを最後のチェックポイントから再開する
+ */
+function resumeFromCheckpoint(agent: AgentLoop): boolean {
+  if (!agent.canResumeFromCheckpoint()) return false;
+
+  const { taskId, checkpoint } = agent.getState();
+  const store = getSessionStore();
+  // チェックポイント以降の（途中で失われたフェーズの）会話は破棄する
+  store.truncateMessages(taskId!, checkpoint!.messageCount);
+  return agent.resumeFromCheckpoint(store.getMessages(taskId!));
+}
+
+/**
+ * セッションの設定を変更して永続化する
+ * - modelName: 実行中のタスクには影響せず、次のタスクから適用される
+ * - approvalThreshold: 承認が必要になる危険度のしきい値（即座に適用される）
+ */
+export function updateSessionSettings(
+  sessionId: string,
+  settings: { modelName?: string; approvalThreshold?: ApprovalThreshold },
+): AgentLoop {
+  const channel = getChannel(sessionId, true);
+
+  if (settings.modelName !== undefined) {
+    channel.agent.setModel(settings.modelName);
+  }
+  if (settings.approvalThreshold !== undefined) {
+    channel.agent.setApprovalThreshold(settings.approvalThreshold);
+  }
+  persistSessionSettings(channel);
+
+  return channel.agent;
+}
+
+/**
+ * 前回配信した状態からの差分を配信する（変更がなければ配信しない）
+ */
+function publishStatePatch(sessionId: string, state: AgentState) {
+  const channel = getRegistry().get(sessionId);
+  if (!channel) return;
+
+  const operations = createPatch(channel.published.state, state);
+  if (operations.length === 0) return;
+
+  channel.published = { state, version: channel.published.version + 1 };
+  publishToSession(sessionId, { type: 'state-patch', data: { version: channel.published.version, operations } });
+}
+
+/**
+ * セッションの状態全体を、差分の起点となる版と共に取得する
+ */
+export function getStateSnapshot(sessionId: string): WebSocketPayload {
+  const channel = getChannel(sessionId, true);
+  return { type: 'state-snapshot', data: { version: channel.published.version, state: channel.published.state } };
+}
+
+/**
+ * セッションの購読者にペイロードを配信する
+ */
+export function publishToSession(sessionId: string, payload: WebSocketPayload): void {
+  const channel = getRegistry().get(sessionId);
+  if (!channel) return;
+
+  const event: SessionEvent = { id: channel.nextEventId++, payload };
+  // 生成途中の差分は再送用バッファに残さない（生成の完了時のイベントが全文を含む）
+  if (payload.type !== 'message-delta' || payload.data.done) {
+    channel.events.push(event);
+    if (channel.events.length > MAX_BUFFERED_EVENTS) {
+      channel.events.shift();
+    }
+  }
+
+  for (const listener of channel.listeners) {
+    listener(event);
+  }
+}
+
+/**
+ * セッションのイベントを購読し、登録解除関数を返す
+ * lastEventId が再送用バッファ内にあればそれ以降のイベントを再送し、
+ * なければ現在の状態全体を1回通知してから購読を始める
+ * 購読だけではセッションを作成しない（未作成のセッションは作成時に状態全体を通知する）
+ */
+export function subscribeToSession(
+  sessionId: string,
+  listener: (event: SessionEvent) => void,
+  lastEventId?: number,
+): () => void {
+  const channel = getChannel(sessionId, false);
+
+  if (!channel) {
+    const waiting = getWaitingListeners();
+    const listeners = waiting.get(sessionId) ?? new Set();
+    listeners.add(listener);
+    waiting.set(sessionId, listeners);
+    return () => {
+      // 作成後は配信路に移っているため両方から取り除く
+      listeners.delete(listener);
+      if (listeners.size === 0 && waiting.get(sessionId) === listeners) {
+        waiting.delete(sessionId);
+      }
+      getRegistry().get(sessionId)?.listeners.delete(listener);
+    };
+  }
+
+  const oldest = channel.events[0]?.id;
+  const canResume = lastEventId !== undefined
+    && oldest !== undefined
+    && lastEventId >= oldest - 1
+    && lastEventId < channel.nextEventId;
+
+  if (canResume) {
+    for (const event of channel.events) {
+      if (event.id > lastEventId) listener(event);
+    }
+  } else {
+    sendCurrentState(sessionId, channel, listener);
+  }
+
+  channel.listeners.add(listener);
+  return () => {
+    channel.listeners.delete(listener);
+  };
+}
+
+/**
+ * 購読者に現在の状態全体とキューの状態を通知する
+ */
+function sendCurrentState(sessionId: string, channel: SessionChannel, listener: (event: SessionEvent) => void) {
+  listener({
+    id: channel.nextEventId - 1,
+    payload: { type: 'state-snapshot', data: { version: channel.published.version, state: channel.published.state } },
+  });
+  listener({
+    id: channel.nextEventId - 1,
+    payload: { type: 'queue-update', data: describeQueue(sessionId) },
+  });
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { createPlan, findNextStep } from '@/lib/agent/plan';
+
+describe('createPlan', () => {
+  it('keeps dependencies on earlier steps', () => {
+    const plan = createPlan(['調べる', { title: 'まとめる', dependsOn: [1] }]);
+
+    expect(plan.map(step => step.dependencies)).toEqual([[], ['s1']]);
+  });
+
+  it('drops circular and forward dependencies so that every step can run', () => {
+    const plan = createPlan([
+      { title: '1つ目', dependsOn: [2] },
+      { title: '2つ目', dependsOn: [1, 2, 3] },
+      { title: '3つ目', dependsOn: [0, 'x', 1.5] },
+    ]);
+
+    expect(plan.map(step => step.dependencies)).toEqual([[], ['s1'], []]);
+    expect(findNextStep(plan)?.id).toBe('s1');
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * 構造化された計画（ステップの状態・依存関係）を操作するユーティリティ
+ */
+
+import { PlanChange, PlanOperation, PlanStep } from '@/lib/agent/AgentTypes';
+
+// ステップとして受け付ける計画の記述（文字列、または依存先を 1 始まりの番号で指定したオブジェクト）
+export type PlanStepInput = string | { title?: unknown; dependsOn?: unknown; weight?: unknown };
+
+/**
+ * モデルが返した手順の一覧から計画を作成する
+ * 依存先は前のステップだけを受け付け、自身・後のステップへの依存（循環して実行できなくなる）は取り除く
+ */
+export function createPlan(inputs: PlanStepInput[]): PlanStep[] {
+  const steps = inputs
+    .map(input => (typeof input === 'string'
+      ? { title: input, dependsOn: [], weight: 1 }
+      : { title: String(input?.title ?? ''), dependsOn: input?.dependsOn, weight: Number(input?.weight) }))
+    .map(input => ({
+      title: input.title.trim(),
+      dependsOn: Array.isArray(input.dependsOn) ? input.dependsOn : [],
+      weight: input.weight > 0 ? input.weight : 1,
+    }))
+    .filter(input => input.title);
+
+  const ids = steps.map((_, i) => `s${i + 1}`);
+  return steps.map((input, i) => ({
+    id: ids[i],
+    title: input.title,
+    status: 'pending',
+    dependencies: input.dependsOn
+      .map(n => Number(n) - 1)
+      .filter(index => Number.isInteger(index) && index >= 0 && index < i)
+      .map(index => ids[index]),
+    weight: input.weight,
+    attempts: 0,
+    resultRef: null,
+  }));
+}
+
+/**
+ * 依存先がすべて終わっていて、次に実行できるステップを取得する
+ * スキップしたステップへの依存は満たされたものとして扱う
+ */
+export function findNextStep(plan: PlanStep[]): PlanStep | null {
+  const finished = new Set(plan.filter(step => step.status === 'done' || step.status === 'skipped').map(step => step.id));
+  return plan.find(step => step.status === 'pending' && step.dependencies.every(id => finished.has(id))) ?? null;
+}
+
+/**
+ * 失敗したステップ（または存在しないステップ）に依存していて実行できないステップをスキップにする
+ * スキップしたステップは依存するステップを妨げないが、ここで実行できずにスキップしたステップに依存するステップは連鎖してスキップする
+ */
+export function skipBlockedSteps(plan: PlanStep[]): PlanStep[] {
+  let result = plan;
+  const blocked = new Set(plan.filter(step => step.status === 'failed').map(step => step.id));
+  const known = new Set(plan.map(step => step.id));
+  let changed = true;
+
+  // スキップが連鎖するため、変化がなくなるまで繰り返す
+  while (changed) {
+    changed = false;
+    result = result.map(step => {
+      if (step.status !== 'pending') return step;
+      if (!step.dependencies.some(id => blocked.has(id) || !known.has(id))) return step;
+      changed = true;
+      blocked.add(step.id);
+      return { ...step, status: 'skipped' };
+    });
+  }
+  return result;
+}
+
+/**
+ * ステップの一部を更新した計画を返す
+ */
+export function updateStep(plan: PlanStep[], id: string, updates: Partial<PlanStep>): PlanStep[] {
+  return plan.map(step => (step.id === id ? { ...step, ...updates } : step));
+}
+
+/**
+ * 更新フェーズでモデルが指示した操作を計画に適用する
+ * 未着手（pending）のステップだけを変更対象とし、不正な操作は無視する
+ */
+export function applyPlanOperations(plan: PlanStep[], operations: PlanOperation[]): PlanStep[] {
+  let result = [...plan];
+  let nextId = result.reduce((max, step) => Math.max(max, Number(step.id.slice(1)) || 0), 0) + 1;
+  const newStep = (title: string, dependencies: string[] = [], weight = 1): PlanStep => ({
+    id: `s${nextId++}`,
+    title,
+    status: 'pending',
+    dependencies,
+    weight,
+    attempts: 0,
+    resultRef: null,
+  });
+  const indexOf = (id: unknown) => result.findIndex(step => step.id === id);
+  const isPending = (id: unknown) => result[indexOf(id)]?.status === 'pending';
+  // after の直後（未指定なら未着手のステップの先頭）の位置
+  const insertionIndex = (after: unknown) => {
+    if (after !== undefined && after !== null && indexOf(after) >= 0) return indexOf(after) + 1;
+    const firstPending = result.findIndex(step => step.status === 'pending');
+    return firstPending >= 0 ? firstPending : result.length;
+  };
+
+  for (const operation of operations) {
+    switch (operation?.op) {
+      case 'insert': {
+        if (!operation.title?.trim()) break;
+        const dependencies = (operation.dependencies ?? []).filter(id => indexOf(id) >= 0);
+        result.splice(insertionIndex(operation.after), 0, newStep(operation.title.trim(), dependencies));
+        break;
+      }
+
+      case 'remove': {
+        if (!isPending(operation.id)) break;
+        // 取り除いたステップへの依存は、他のステップの依存先からも外す
+        result = updateStep(result, operation.id, { status: 'skipped' }).map(step => ({
+          ...step,
+          dependencies: step.dependencies.filter(id => id !== operation.id),
+        }));
+        break;
+      }
+
+      case 'move': {
+        if (!isPending(operation.id) || operation.after === operation.id) break;
+        const [step] = result.splice(indexOf(operation.id), 1);
+        result.splice(insertionIndex(operation.after), 0, step);
+        break;
+      }
+
+      case 'split': {
+        const titles = (operation.into ?? []).map(String).filter(title => title.trim());
+        if (!isPending(operation.id) || titles.length === 0) break;
+
+        // 分割後のステップは順に依存させ、元のステップへの依存は最後のステップへの依存に置き換える
+        // 作業量は元のステップの重みを等分する
+        const original = result[indexOf(operation.id)];
+        const weight = (original.weight > 0 ? original.weight : 1) / titles.length;
+        const parts: PlanStep[] = [];
+        for (const title of titles) {
+          parts.push(newStep(title.trim(), parts.length > 0 ? [parts[parts.length - 1].id] : original.dependencies, weight));
+        }
+        result.splice(indexOf(operation.id), 1, ...parts);
+        result = result.map(step => ({
+          ...step,
+          dependencies: step.dependencies.map(id => (id === original.id ? parts[parts.length - 1].id : id)),
+        }));
+        break;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 計画の変更点（追加・削除・移動・状態の変化）を求める
+ */
+export function diffPlans(before: PlanStep[], after: PlanStep[]): PlanChange[] {
+  const changes: PlanChange[] = [];
+  const previous = new Map(before.map(step => [step.id, step]));
+  const current = new Set(after.map(step => step.id));
+
+  for (const step of before) {
+    if (!current.has(step.id)) changes.push({ type: 'removed', stepId: step.id });
+  }
+
+  // 削除・追加の影響を除いた並び順で移動を判定する
+  const remainingOrder = before.filter(step => current.has(step.id)).map(step => step.id);
+  const keptOrder = after.filter(step => previous.has(step.id)).map(step => step.id);
+
+  after.forEach((step, index) => {
+    const old = previous.get(step.id);
+    if (!old) {
+      changes.push({ type: 'added', step, index });
+      return;
+    }
+    if (remainingOrder.indexOf(step.id) !== keptOrder.indexOf(step.id)) {
+      changes.push({ type: 'moved', stepId: step.id, index });
+    }
+    if (old.status !== step.status) {
+      changes.push({ type: 'status', stepId: step.id, status: step.status });
+    }
+  });
+
+  return changes;
+}
@@ -0,0 +1,128 @@
+/**
+ * 計画のステップの重みからタスクの進捗率と残り時間を求めるユーティリティ
+ */
+
+import { PlanStep } from '@/lib/agent/AgentTypes';
+
+// 実行中のステップのフェーズ（更新フェーズではステップの成否が確定している）
+export type StepPhase = 'execute' | 'observe';
+
+// 進捗の通知方針
+export type ProgressPolicy = {
+  thresholds: number[]; // 通過したときに通知する進捗率（%）
+  intervalMs: number;   // 実行中に定期的に通知する間隔（0 なら定期通知しない）
+};
+
+// 計画フェーズが占める進捗率（残りをステップの重みで配分する）
+const PLANNING_SHARE = 10;
+// 各フェーズの開始時点で、そのステップの作業が終わっている割合
+const PHASE_FRACTIONS: Record<StepPhase, number> = {
+  execute: 0,
+  observe: 0.7,
+};
+
+/**
+ * 既定の通知方針
+ */
+export const DEFAULT_PROGRESS_POLICY: ProgressPolicy = {
+  thresholds: (process.env.AGENT_PROGRESS_THRESHOLDS || '30,50,70,90')
+    .split(',')
+    .map(Number)
+    .filter(value => value > 0 && value < 100)
+    .sort((a, b) => a - b),
+  intervalMs: Number(process.env.AGENT_PROGRESS_INTERVAL_MS ?? 60 * 1000),
+};
+
+/**
+ * 1タスクの進捗を追跡するクラス
+ * 進捗率は後戻りしないように保ち、完了したステップの所要時間から残り時間を見積もる
+ */
+export class ProgressTracker {
+  private progress: number;
+  private notified: Set<number>;
+  private stepStartedAt = new Map<string, number>();
+  // 完了したステップの重みと所要時間の合計
+  private finishedWeight = 0;
+  private finishedDuration = 0;
+
+  constructor(private readonly thresholds: number[], initialProgress = 0) {
+    this.progress = initialProgress;
+    // 再開したタスクでは通過済みのしきい値を通知しない
+    this.notified = new Set(thresholds.filter(threshold => threshold <= initialProgress));
+  }
+
+  /**
+   * ステップの実行開始を記録する
+   */
+  stepStarted(step: PlanStep): void {
+    this.stepStartedAt.set(step.id, Date.now());
+  }
+
+  /**
+   * ステップの終了を記録する（所要時間を残り時間の見積もりに使う）
+   */
+  stepFinished(step: PlanStep): void {
+    const startedAt = this.stepStartedAt.get(step.id);
+    if (startedAt === undefined) return;
+
+    this.stepStartedAt.delete(step.id);
+    this.finishedWeight += stepWeight(step);
+    this.finishedDuration += Date.now() - startedAt;
+  }
+
+  /**
+   * 計画と実行中のステップ・フェーズから進捗率（0-99）と残り時間（ミリ秒、見積もれなければ null）を求める
+   */
+  compute(plan: PlanStep[], current: { stepId: string; phase: StepPhase } | null): { progress: number; eta: number | null } {
+    const total = plan.reduce((sum, step) => sum + stepWeight(step), 0);
+    let done = 0;
+    let remaining = 0;
+
+    for (const step of plan) {
+      const weight = stepWeight(step);
+      if (step.status === 'done' || step.status === 'failed' || step.status === 'skipped') {
+        done += weight;
+      } else if (current && step.id === current.stepId) {
+        done += weight * PHASE_FRACTIONS[current.phase];
+        remaining += weight * (1 - PHASE_FRACTIONS[current.phase]);
+      } else {
+        remaining += weight;
+      }
+    }
+
+    const computed = total > 0 ? PLANNING_SHARE + ((100 - PLANNING_SHARE) * done) / total : PLANNING_SHARE;
+    // 計画の追加で割合が下がっても表示は後戻りさせず、完了までは 99% に留める
+    this.progress = Math.min(99, Math.max(this.progress, Math.floor(computed)));
+
+    const eta = this.finishedWeight > 0
+      ? Math.round((this.finishedDuration / this.finishedWeight) * remaining)
+      : null;
+
+    return { progress: this.progress, eta };
+  }
+
+  /**
+   * 新たに通過したしきい値を取得する（同じしきい値は1度だけ返す）
+   */
+  takeCrossedThresholds(progress: number): number[] {
+    const crossed = this.thresholds.filter(threshold => threshold <= progress && !this.notified.has(threshold));
+    crossed.forEach(threshold => this.notified.add(threshold));
+    return crossed;
+  }
+}
+
+/**
+ * ステップの重み（未指定なら 1）
+ */
+function stepWeight(step: PlanStep): number {
+  return step.weight > 0 ? step.weight : 1;
+}
+
+/**
+ * 残り時間を通知用の文字列にする
+ */
+export function formatEta(eta: number | null): string {
+  if (eta === null) return '';
+  const minutes = Math.round(eta / 60000);
+  return minutes >= 1 ? `残り約${minutes}分` : '残り1分未満';
+}
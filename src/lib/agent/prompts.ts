@@ -0,0 +1,161 @@
+/**
+ * エージェントループの各フェーズで使用するプロンプト
+ */
+
+import { Attachment, PlanStep } from '@/lib/agent/AgentTypes';
+import { ToolDefinition } from '@/lib/llm/LLMTypes';
+import { ToolInvocation } from '@/lib/tools/ToolTypes';
+
+// ツール結果としてモデルに渡す最大文字数
+const MAX_TOOL_RESULT_LENGTH = 8000;
+
+export const DEFAULT_SYSTEM_PROMPT = `あなたは WinManus の自律型AIエージェントです。
+ユーザーの指示を達成するために、計画→実行→観察→更新のループでタスクを進めます。
+指示された出力形式（JSONなど）を厳密に守り、余計な説明を付け加えないでください。`;
+
+/**
+ * 計画フェーズのプロンプト
+ * context には同じセッションの過去のタスクの要約を、attachments にはユーザーがアップロードしたファイルを渡す
+ */
+export function buildPlanPrompt(task: string, tools: ToolDefinition[], context: string = '', attachments: Attachment[] = []): string {
+  const previous = context
+    ? `\nこのセッションでこれまでに実行したタスク（指示が前のタスクを参照している場合の手がかりにしてください）:\n${context}\n`
+    : '';
+  const files = attachments.length > 0 ? `\n${describeAttachments(attachments)}\n` : '';
+
+  return `次のタスクを達成するための手順を計画してください。
+${previous}
+タスク: ${task}
+${files}
+実行時に利用できるツール:
+${describeTools(tools)}
+
+手順は3〜7個程度の具体的な作業に分解し、次のJSON形式のみで回答してください。
+前の手順の完了を待つ必要がある手順は、オブジェクトにして依存先の手順の番号（1始まり）を dependsOn に指定できます。
+他の手順より時間のかかる手順には、作業量の目安を weight（標準は 1）に指定できます。
+{"steps": ["手順1", "手順2", {"title": "手順3", "dependsOn": [1, 2], "weight": 2}, ...]}`;
+}
+
+/**
+ * 実行フェーズのプロンプト
+ */
+export function buildExecutePrompt(step: PlanStep, plan: PlanStep[]): string {
+  return `計画の手順 ${plan.findIndex(candidate => candidate.id === step.id) + 1}/${plan.length} を実行してください。
+
+現在の手順: ${step.title}
+
+必要に応じてツールを呼び出して手順を実行してください。
+ツールの呼び出しが不要になったら、実行した内容とその結果を簡潔に報告してください。`;
+}
+
+/**
+ * 失敗したステップを修正して実行し直させるプロンプト
+ */
+export function buildRepairPrompt(step: PlanStep, error: string): string {
+  return `手順「${step.title}」の実行は次のエラーで失敗しました。
+
+エラー: ${error}
+
+原因を考え、必要なら別の方法やツールの引数を変えて、この手順を実行し直してください。
+ツールの呼び出しが不要になったら、実行した内容とその結果を簡潔に報告してください。`;
+}
+
+/**
+ * 観察フェーズのプロンプト
+ */
+export function buildObservePrompt(step: string, output: string, invocations: ToolInvocation[]): string {
+  const toolSummary = invocations.length > 0
+    ? invocations.map(inv => `- ${inv.tool}: ${inv.success ? '成功' : `失敗 (${inv.error})`}`).join('\n')
+    : '(ツール呼び出しなし)';
+
+  return `手順「${step}」の実行結果を評価してください。
+
+実行結果:
+${output}
+
+ツール呼び出し:
+${toolSummary}
+
+次のJSON形式のみで回答してください。
+{"success": true または false, "feedback": "評価内容"}`;
+}
+
+/**
+ * 更新フェーズのプロンプト
+ */
+export function buildUpdatePrompt(plan: PlanStep[], feedback: string): string {
+  return `直前の手順の評価: ${feedback}
+
+現在の計画:
+${describePlan(plan)}
+
+評価を踏まえて計画を見直してください。次のJSON形式のみで回答してください。
+未着手（pending）の手順を変更する場合のみ "operations" に操作を含めてください。
+- 追加: {"op": "insert", "title": "手順", "after": "直前に置く手順のID（省略時は未着手の先頭）", "dependencies": ["ID", ...]}
+- 削除: {"op": "remove", "id": "ID"}
+- 移動: {"op": "move", "id": "ID", "after": "直前に置く手順のID"}
+- 分割: {"op": "split", "id": "ID", "into": ["手順", ...]}
+タスクが既に達成された場合は "continue" を false にしてください。
+{"continue": true または false, "operations": [...]}`;
+}
+
+/**
+ * ユーザーがアップロードしたファイルの一覧を整形する
+ */
+export function describeAttachments(attachments: Attachment[]): string {
+  const lines = attachments.map(attachment =>
+    `- ${attachment.path ?? attachment.name}（${attachment.type.split(';')[0]}${attachment.size !== undefined ? `, ${attachment.size} bytes` : ''}）`,
+  );
+  return `ユーザーが添付したファイル（ワークスペース内のパスでファイル操作ツールから読み込めます）:\n${lines.join('\n')}`;
+}
+
+/**
+ * 計画をプロンプト用に整形する
+ */
+function describePlan(plan: PlanStep[]): string {
+  if (plan.length === 0) return '(なし)';
+  return plan
+    .map(step => `- [${step.id}] (${step.status}) ${step.title}${step.dependencies.length > 0 ? ` ※依存: ${step.dependencies.join(', ')}` : ''}`)
+    .join('\n');
+}
+
+/**
+ * ツールの一覧をプロンプト用に整形する
+ */
+function describeTools(tools: ToolDefinition[]): string {
+  if (tools.length === 0) return '(なし)';
+  return tools.map(tool => `- ${tool.name}: ${tool.description}`).join('\n');
+}
+
+/**
+ * ツール呼び出しの結果をモデルに返すメッセージ本文に整形する
+ * 失敗した場合はエラー内容を観察結果として伝え、モデルに修正を促す
+ */
+export function formatToolResult(invocation: ToolInvocation): string {
+  const body = invocation.success
+    ? JSON.stringify({ success: true, output: invocation.output })
+    : JSON.stringify({ success: false, error: invocation.error });
+
+  return body.length > MAX_TOOL_RESULT_LENGTH
+    ? `${body.slice(0, MAX_TOOL_RESULT_LENGTH)}...(truncated)`
+    : body;
+}
+
+/**
+ * モデルの応答からJSONを取り出す
+ * コードブロックや前後の文章が含まれていても最初のJSONオブジェクトを抽出する
+ */
+export function parseJsonReply<T>(reply: string): T | null {
+  const fenced = reply.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : reply;
+
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  if (start < 0 || end <= start) return null;
+
+  try {
+    return JSON.parse(candidate.slice(start, end + 1)) as T;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * エージェントループのタイムアウト・再試行・上限の設定と、再試行の判定
+ */
+
+import { HttpError } from '@/lib/llm/streamUtils';
+
+// 失敗からの回復方針
+export type RecoveryPolicy = {
+  stepTimeoutMs: number;     // 1ステップの実行の制限時間
+  toolTimeoutMs: number;     // 1回のツール呼び出しの制限時間
+  maxRetries: number;        // 一時的な失敗（接続エラー・429・5xx）でモデル呼び出しを再試行する回数
+  retryBaseDelayMs: number;  // 再試行の初回の待ち時間（以後は倍々に増やす）
+  retryMaxDelayMs: number;   // 再試行の待ち時間の上限
+  maxRepairAttempts: number; // 失敗したステップをエラー内容を伝えてモデルに直させる回数
+  maxIterations: number;     // 1タスクで実行するステップ数の上限（修正のやり直しを含む）
+  maxWallTimeMs: number;     // 1タスクの実行時間の上限
+  maxTaskTokens: number;     // 1タスクで使用するトークン数の上限（0 なら制限しない）
+};
+
+/**
+ * 既定の回復方針
+ */
+export const DEFAULT_RECOVERY_POLICY: RecoveryPolicy = {
+  stepTimeoutMs: Number(process.env.AGENT_STEP_TIMEOUT_MS) || 10 * 60 * 1000,
+  toolTimeoutMs: Number(process.env.AGENT_TOOL_TIMEOUT_MS) || 5 * 60 * 1000,
+  maxRetries: 3,
+  retryBaseDelayMs: 1000,
+  retryMaxDelayMs: 30 * 1000,
+  maxRepairAttempts: 2,
+  maxIterations: Number(process.env.AGENT_MAX_ITERATIONS) || 50,
+  maxWallTimeMs: Number(process.env.AGENT_MAX_WALL_TIME_MS) || 60 * 60 * 1000,
+  maxTaskTokens: Number(process.env.AGENT_MAX_TASK_TOKENS) || 0,
+};
+
+// 再試行で解消する見込みのある接続エラーのコード
+const TRANSIENT_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT'];
+
+/**
+ * 再試行で解消する見込みのある一時的な失敗か判定する
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof HttpError) {
+    return error.status === 408 || error.status === 429 || error.status >= 500;
+  }
+  if (!(error instanceof Error)) return false;
+
+  const code = (error as NodeJS.ErrnoException).code ?? ((error.cause as NodeJS.ErrnoException | undefined)?.code);
+  return (code !== undefined && TRANSIENT_ERROR_CODES.includes(code)) || error.message === 'fetch failed';
+}
+
+/**
+ * 再試行の待ち時間（指数バックオフ＋ゆらぎ）を求める
+ */
+export function backoffDelay(attempt: number, policy: Pick<RecoveryPolicy, 'retryBaseDelayMs' | 'retryMaxDelayMs'>): number {
+  const delay = Math.min(policy.retryBaseDelayMs * 2 ** (attempt - 1), policy.retryMaxDelayMs);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
@@ -0,0 +1,109 @@
+/**
+ * セッション内の過去のタスクを、後続タスクの計画に渡す文脈として整形するユーティリティ
+ */
+
+import type { AgentState } from '@/lib/agent/AgentLoop';
+
+// 過去のタスクの記録
+export type TaskRecord = {
+  taskId: string;
+  task: string;
+  status: AgentState['status'];
+  error: string | null;
+  // 各ステップの報告（ツール出力は含めない）
+  steps: { step: string; output: string }[];
+  // タスクで変更したファイル（成果物）
+  files: string[];
+  finishedAt: number;
+};
+
+// 文脈に含める1ステップの報告の最大文字数
+const MAX_STEP_OUTPUT_LENGTH = 500;
+
+/**
+ * エージェントの状態からタスクの記録を作成する
+ */
+export function toTaskRecord(state: Pick<AgentState, 'taskId' | 'currentTask' | 'status' | 'error' | 'results' | 'touchedFiles'>, finishedAt: number = Date.now()): TaskRecord {
+  return {
+    taskId: state.taskId ?? '',
+    task: state.currentTask ?? '',
+    status: state.status,
+    error: state.error,
+    steps: state.results.map(result => ({
+      step: String(result.stepCompleted ?? ''),
+      output: truncate(String(result.output ?? ''), MAX_STEP_OUTPUT_LENGTH),
+    })),
+    files: [...new Set(state.touchedFiles.map(change => change.path))],
+    finishedAt,
+  };
+}
+
+/**
+ * おおよそのトークン数を見積もる（日本語を含むため文字数の半分で概算する）
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 2);
+}
+
+/**
+ * 過去のタスクを計画プロンプト用の文脈に整形する
+ * 新しいタスクから順に詳細を含め、予算を超える古いタスクは1行の要約に縮め、
+ * それでも収まらない分は件数だけを残す
+ */
+export function buildTaskContext(records: TaskRecord[], maxTokens: number): string {
+  if (records.length === 0 || maxTokens <= 0) return '';
+
+  const sections: string[] = [];
+  let used = 0;
+  let omitted = 0;
+  // 一度要約に切り替えたら、それより古いタスクは要約のみにする
+  let summarizing = false;
+
+  for (let i = records.length - 1; i >= 0; i--) {
+    const detailed = describeTask(records[i], i + 1, true);
+    const summary = describeTask(records[i], i + 1, false);
+
+    if (!summarizing && used + estimateTokens(detailed) <= maxTokens) {
+      sections.unshift(detailed);
+      used += estimateTokens(detailed);
+    } else if (used + estimateTokens(summary) <= maxTokens) {
+      sections.unshift(summary);
+      used += estimateTokens(summary);
+      summarizing = true;
+    } else {
+      omitted = i + 1;
+      break;
+    }
+  }
+
+  if (omitted > 0) {
+    sections.unshift(`(これより前の ${omitted} 件のタスクは省略)`);
+  }
+  return sections.join('\n\n');
+}
+
+/**
+ * 1件のタスクを文脈用に整形する（detailed が false なら1行の要約）
+ */
+function describeTask(record: TaskRecord, index: number, detailed: boolean): string {
+  const outcome = record.status === 'completed'
+    ? '完了'
+    : `${record.status}${record.error ? `: ${record.error}` : ''}`;
+  const header = `${index}. ${record.task}（${outcome}）`;
+  const files = record.files.length > 0 ? `変更したファイル: ${record.files.join(', ')}` : '';
+
+  if (!detailed) {
+    const last = record.steps[record.steps.length - 1];
+    return [header, last ? `最終報告: ${truncate(last.output, 120)}` : '', files].filter(Boolean).join(' / ');
+  }
+
+  const steps = record.steps.map(step => `  - ${step.step}: ${step.output}`).join('\n');
+  return [header, steps, files ? `  ${files}` : ''].filter(Boolean).join('\n');
+}
+
+/**
+ * 指定した長さを超える文字列を切り詰める
+ */
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length)}...` : text;
+}
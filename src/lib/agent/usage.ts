@@ -0,0 +1,108 @@
+/**
+ * モデル・ツールの使用量（トークン数・所要時間・料金）の集計と予算の判定
+ */
+
+import { AgentStatus, TaskUsage, UsageTotals } from '@/lib/agent/AgentTypes';
+import { TokenUsage } from '@/lib/llm/LLMTypes';
+
+// モデルの料金（USD / 100万トークン）
+export type ModelPrice = {
+  prompt: number;
+  completion: number;
+};
+
+/**
+ * モデルごとの料金表
+ * AGENT_MODEL_PRICES に "openai:gpt-4o=2.5/10,openai:gpt-4o-mini=0.15/0.6" の形式で指定する（ローカルモデルは無料として扱う）
+ */
+export const MODEL_PRICES: Record<string, ModelPrice> = Object.fromEntries(
+  (process.env.AGENT_MODEL_PRICES || '')
+    .split(',')
+    .map(entry => entry.trim().match(/^(.+)=([\d.]+)\/([\d.]+)$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(([, modelName, prompt, completion]) => [modelName, { prompt: Number(prompt), completion: Number(completion) }]),
+);
+
+/**
+ * 使用量の予算を超えたことを表すエラー（ステップの修正では解消しないためタスクを終了させる）
+ */
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * 空の使用量の集計を作成する
+ */
+export function emptyUsage(): UsageTotals {
+  return {
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    estimatedTokens: 0,
+    cost: 0,
+    modelCalls: 0,
+    modelLatencyMs: 0,
+    toolCalls: 0,
+    toolDurationMs: 0,
+  };
+}
+
+/**
+ * 空のタスクの使用量を作成する
+ */
+export function emptyTaskUsage(): TaskUsage {
+  return { ...emptyUsage(), byPhase: {} };
+}
+
+/**
+ * モデル呼び出し1回分の使用量を求める
+ * estimated にはプロバイダーが使用量を報告しなかったため推定した値かどうかを渡す
+ */
+export function modelCallUsage(modelName: string, tokens: TokenUsage, latencyMs: number, estimated: boolean): UsageTotals {
+  const price = MODEL_PRICES[modelName];
+  const totalTokens = tokens.promptTokens + tokens.completionTokens;
+  return {
+    ...emptyUsage(),
+    promptTokens: tokens.promptTokens,
+    completionTokens: tokens.completionTokens,
+    totalTokens,
+    estimatedTokens: estimated ? totalTokens : 0,
+    cost: price ? (tokens.promptTokens * price.prompt + tokens.completionTokens * price.completion) / 1_000_000 : 0,
+    modelCalls: 1,
+    modelLatencyMs: latencyMs,
+  };
+}
+
+/**
+ * ツール呼び出し1回分の使用量を求める
+ */
+export function toolCallUsage(durationMs: number): UsageTotals {
+  return { ...emptyUsage(), toolCalls: 1, toolDurationMs: durationMs };
+}
+
+/**
+ * 使用量を合計する
+ */
+export function sumUsage(items: UsageTotals[]): UsageTotals {
+  const total = emptyUsage();
+  for (const item of items) {
+    for (const key of Object.keys(total) as (keyof UsageTotals)[]) {
+      total[key] += item[key] ?? 0;
+    }
+  }
+  return total;
+}
+
+/**
+ * タスクの使用量に加算する（フェーズごとの内訳にも加える）
+ */
+export function addTaskUsage(usage: TaskUsage, phase: AgentStatus, delta: UsageTotals): TaskUsage {
+  const { byPhase, ...totals } = usage;
+  return {
+    ...sumUsage([totals, delta]),
+    byPhase: { ...byPhase, [phase]: sumUsage([byPhase[phase] ?? emptyUsage(), delta]) },
+  };
+}
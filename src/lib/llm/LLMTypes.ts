@@ -0,0 +1,68 @@
+/**
+ * LLMプロバイダー層の型定義ファイル
+ */
+
+// チャットメッセージのロール
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+// モデルが要求したツール呼び出し
+export type ToolCall = {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+};
+
+// チャットメッセージ
+export type ChatMessage = {
+  role: ChatRole;
+  content: string;
+  toolCalls?: ToolCall[]; // assistant がツール呼び出しを要求した場合
+  toolCallId?: string;    // role が tool の場合、対応する呼び出しID
+  name?: string;          // role が tool の場合、ツール名
+};
+
+// モデルに提示するツール定義
+export type ToolDefinition = {
+  name: string;
+  description: string;
+  parameters: Record<string, any>; // JSON Schema
+};
+
+// 生成の停止理由
+export type StopReason = 'stop' | 'length' | 'tool_calls' | 'error';
+
+// トークン使用量
+export type TokenUsage = {
+  promptTokens: number;
+  completionTokens: number;
+};
+
+// チャット補完リクエスト
+export type ChatRequest = {
+  model: string;
+  messages: ChatMessage[];
+  tools?: ToolDefinition[];
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+};
+
+// チャット補完レスポンス
+export type ChatResponse = {
+  content: string;
+  toolCalls: ToolCall[];
+  stopReason: StopReason;
+  usage?: TokenUsage;
+};
+
+// ストリーミング中に生成トークンを受け取るコールバック
+export type TokenCallback = (token: string) => void;
+
+/**
+ * LLMプロバイダーのインターフェース
+ * Ollama・OpenAI互換API・モックなどの実装を差し替え可能にする
+ */
+export interface LLMProvider {
+  readonly name: string;
+  chat(request: ChatRequest, onToken?: TokenCallback): Promise<ChatResponse>;
+}
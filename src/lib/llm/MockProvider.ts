@@ -0,0 +1,105 @@
+import {
+  ChatRequest,
+  ChatResponse,
+  LLMProvider,
+  TokenCallback,
+  TokenUsage,
+  ToolCall,
+} from '@/lib/llm/LLMTypes';
+
+// スクリプトの1ステップ（文字列は本文のみの応答として扱う）
+export type MockStep =
+  | string
+  | {
+      content?: string;
+      toolCalls?: ToolCall[];
+      stopReason?: ChatResponse['stopReason'];
+      usage?: TokenUsage;
+    }
+  | ((request: ChatRequest) => ChatResponse);
+
+/**
+ * 決定論的なスクリプトで応答するモックプロバイダー
+ * ネットワークなしでエージェントループを駆動するために使用する
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+  // 受け取ったリクエストの記録（検証用）
+  readonly requests: ChatRequest[] = [];
+  private script: MockStep[];
+  private fallback: MockStep;
+
+  constructor(script: MockStep[] = [], fallback: MockStep = DEFAULT_MOCK_FALLBACK) {
+    this.script = [...script];
+    this.fallback = fallback;
+  }
+
+  /**
+   * スクリプトの次のステップを返す（尽きたらフォールバックを返す）
+   */
+  async chat(request: ChatRequest, onToken?: TokenCallback): Promise<ChatResponse> {
+    if (request.signal?.aborted) {
+      throw new Error('Request aborted');
+    }
+
+    this.requests.push(request);
+    const step = this.script.length > 0 ? this.script.shift()! : this.fallback;
+    const response = toResponse(step, request);
+
+    // 空白区切りでトークンを模擬的にストリーミングする
+    if (onToken && response.content) {
+      for (const token of response.content.match(/\S+\s*|\s+/g) ?? []) {
+        onToken(token);
+      }
+    }
+
+    return response;
+  }
+
+  /**
+   * スクリプトにステップを追加する
+   */
+  enqueue(...steps: MockStep[]): void {
+    this.script.push(...steps);
+  }
+}
+
+/**
+ * スクリプトが尽きた場合の既定の応答
+ * 各フェーズのプロンプトを見分けて、ループが完了まで進む最小限のJSONを返す
+ */
+export const DEFAULT_MOCK_FALLBACK: MockStep = (request) => {
+  const last = request.messages[request.messages.length - 1]?.content ?? '';
+
+  let content = 'OK';
+  if (last.includes('"steps"')) {
+    content = JSON.stringify({ steps: ['タスクを実行する'] });
+  } else if (last.includes('"success"')) {
+    content = JSON.stringify({ success: true, feedback: '正常に完了' });
+  } else if (last.includes('"continue"')) {
+    content = JSON.stringify({ continue: true });
+  }
+
+  return { content, toolCalls: [], stopReason: 'stop', usage: { promptTokens: 0, completionTokens: 0 } };
+};
+
+/**
+ * スクリプトのステップをレスポンスに変換する
+ */
+function toResponse(step: MockStep, request: ChatRequest): ChatResponse {
+  if (typeof step === 'function') {
+    return step(request);
+  }
+
+  if (typeof step === 'string') {
+    return { content: step, toolCalls: [], stopReason: 'stop', usage: { promptTokens: 0, completionTokens: 0 } };
+  }
+
+  const toolCalls = step.toolCalls ?? [];
+  return {
+    content: step.content ?? '',
+    toolCalls,
+    stopReason: step.stopReason ?? (toolCalls.length > 0 ? 'tool_calls' : 'stop'),
+    usage: step.usage ?? { promptTokens: 0, completionTokens: 0 },
+  };
+}
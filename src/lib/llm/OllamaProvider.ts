@@ -0,0 +1,114 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  LLMProvider,
+  StopReason,
+  TokenCallback,
+  ToolCall,
+} from '@/lib/llm/LLMTypes';
+import { httpError, readLines } from '@/lib/llm/streamUtils';
+
+/**
+ * Ollama の HTTP API (/api/chat) を利用するプロバイダー
+ */
+export class OllamaProvider implements LLMProvider {
+  readonly name = 'ollama';
+  private baseUrl: string;
+
+  constructor(baseUrl: string = process.env.OLLAMA_BASE_URL || 'http://localhost:11434') {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+  }
+
+  /**
+   * チャット補完を実行する（ストリーミング）
+   */
+  async chat(request: ChatRequest, onToken?: TokenCallback): Promise<ChatResponse> {
+    const response = await fetch(`${this.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages.map(toOllamaMessage),
+        tools: request.tools?.map(tool => ({ type: 'function', function: tool })),
+        stream: true,
+        options: {
+          temperature: request.temperature,
+          num_predict: request.maxTokens,
+        },
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw await httpError(this.name, response);
+    }
+
+    let content = '';
+    const toolCalls: ToolCall[] = [];
+    let stopReason: StopReason = 'stop';
+    let usage: ChatResponse['usage'];
+
+    for await (const line of readLines(response.body)) {
+      const chunk = JSON.parse(line);
+
+      if (chunk.error) {
+        throw new Error(`ollama error: ${chunk.error}`);
+      }
+
+      const token: string = chunk.message?.content ?? '';
+      if (token) {
+        content += token;
+        onToken?.(token);
+      }
+
+      for (const call of chunk.message?.tool_calls ?? []) {
+        toolCalls.push({
+          id: uuidv4(),
+          name: call.function.name,
+          arguments: parseArguments(call.function.arguments),
+        });
+      }
+
+      if (chunk.done) {
+        if (chunk.done_reason === 'length') stopReason = 'length';
+        usage = {
+          promptTokens: chunk.prompt_eval_count ?? 0,
+          completionTokens: chunk.eval_count ?? 0,
+        };
+      }
+    }
+
+    if (toolCalls.length > 0) stopReason = 'tool_calls';
+
+    return { content, toolCalls, stopReason, usage };
+  }
+}
+
+/**
+ * 内部形式のメッセージを Ollama の形式に変換する
+ */
+function toOllamaMessage(message: ChatMessage) {
+  return {
+    role: message.role,
+    content: message.content,
+    tool_calls: message.toolCalls?.map(call => ({
+      function: { name: call.name, arguments: call.arguments },
+    })),
+  };
+}
+
+/**
+ * ツール引数をオブジェクトとして取り出す（文字列で返すモデルにも対応）
+ */
+function parseArguments(args: unknown): Record<string, any> {
+  if (typeof args === 'string') {
+    try {
+      return JSON.parse(args);
+    } catch {
+      return {};
+    }
+  }
+  return (args as Record<string, any>) ?? {};
+}
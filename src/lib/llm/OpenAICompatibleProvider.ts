@@ -0,0 +1,163 @@
+import {
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  LLMProvider,
+  StopReason,
+  TokenCallback,
+  ToolCall,
+} from '@/lib/llm/LLMTypes';
+import { httpError, readLines } from '@/lib/llm/streamUtils';
+
+/**
+ * OpenAI互換の Chat Completions API (/chat/completions) を利用するプロバイダー
+ * OpenAI 本家のほか、LM Studio・vLLM などの互換サーバーでも動作する
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai';
+  private baseUrl: string;
+  private apiKey: string | undefined;
+
+  constructor(
+    baseUrl: string = process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+    apiKey: string | undefined = process.env.OPENAI_API_KEY,
+  ) {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+    this.apiKey = apiKey;
+  }
+
+  /**
+   * チャット補完を実行する（ストリーミング）
+   */
+  async chat(request: ChatRequest, onToken?: TokenCallback): Promise<ChatResponse> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages.map(toOpenAIMessage),
+        tools: request.tools?.length
+          ? request.tools.map(tool => ({ type: 'function', function: tool }))
+          : undefined,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        stream: true,
+        stream_options: { include_usage: true },
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw await httpError(this.name, response);
+    }
+
+    let content = '';
+    let stopReason: StopReason = 'stop';
+    let usage: ChatResponse['usage'];
+    // ツール呼び出しはインデックスごとに断片で届くため蓄積する
+    const partialCalls: { id: string; name: string; arguments: string }[] = [];
+
+    for await (const line of readLines(response.body)) {
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') break;
+
+      const chunk = JSON.parse(data);
+
+      if (chunk.usage) {
+        usage = {
+          promptTokens: chunk.usage.prompt_tokens ?? 0,
+          completionTokens: chunk.usage.completion_tokens ?? 0,
+        };
+      }
+
+      const choice = chunk.choices?.[0];
+      if (!choice) continue;
+
+      const token: string = choice.delta?.content ?? '';
+      if (token) {
+        content += token;
+        onToken?.(token);
+      }
+
+      for (const delta of choice.delta?.tool_calls ?? []) {
+        const partial = partialCalls[delta.index] ?? { id: '', name: '', arguments: '' };
+        if (delta.id) partial.id = delta.id;
+        if (delta.function?.name) partial.name += delta.function.name;
+        if (delta.function?.arguments) partial.arguments += delta.function.arguments;
+        partialCalls[delta.index] = partial;
+      }
+
+      if (choice.finish_reason) {
+        stopReason = toStopReason(choice.finish_reason);
+      }
+    }
+
+    const toolCalls: ToolCall[] = partialCalls.filter(Boolean).map(call => ({
+      id: call.id,
+      name: call.name,
+      arguments: parseArguments(call.arguments),
+    }));
+
+    return { content, toolCalls, stopReason, usage };
+  }
+}
+
+/**
+ * 内部形式のメッセージを OpenAI の形式に変換する
+ */
+function toOpenAIMessage(message: ChatMessage) {
+  if (message.role === 'tool') {
+    return {
+      role: 'tool',
+      content: message.content,
+      tool_call_id: message.toolCallId,
+    };
+  }
+
+  return {
+    role: message.role,
+    content: message.content,
+    tool_calls: message.toolCalls?.length
+      ? message.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        }))
+      : undefined,
+  };
+}
+
+/**
+ * OpenAI の finish_reason を内部の停止理由に変換する
+ */
+function toStopReason(finishReason: string): StopReason {
+  switch (finishReason) {
+    case 'length':
+      return 'length';
+    case 'tool_calls':
+    case 'function_call':
+      return 'tool_calls';
+    case 'stop':
+      return 'stop';
+    default:
+      return 'error';
+  }
+}
+
+/**
+ * JSON文字列のツール引数をパースする
+ */
+function parseArguments(args: string): Record<string, any> {
+  if (!args) return {};
+  try {
+    return JSON.parse(args);
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,39 @@
+import { LLMProvider } from '@/lib/llm/LLMTypes';
+import { MockProvider } from '@/lib/llm/MockProvider';
+import { OllamaProvider } from '@/lib/llm/OllamaProvider';
+import { OpenAICompatibleProvider } from '@/lib/llm/OpenAICompatibleProvider';
+
+// モデル名の指定を分解した結果
+export type ModelSpec = {
+  provider: 'ollama' | 'openai' | 'mock';
+  model: string;
+};
+
+/**
+ * "provider:model" 形式のモデル名を分解する
+ * プレフィックスがない場合は Ollama のモデルとみなす（例: "llama3.1:8b"）
+ */
+export function parseModelName(modelName: string): ModelSpec {
+  const match = modelName.match(/^(ollama|openai|mock):(.*)$/);
+  if (match) {
+    return { provider: match[1] as ModelSpec['provider'], model: match[2] };
+  }
+  return { provider: 'ollama', model: modelName };
+}
+
+/**
+ * モデル名に対応するプロバイダーを生成する
+ */
+export function createProvider(modelName: string): LLMProvider {
+  const { provider } = parseModelName(modelName);
+
+  switch (provider) {
+    case 'openai':
+      return new OpenAICompatibleProvider();
+    case 'mock':
+      return new MockProvider();
+    case 'ollama':
+    default:
+      return new OllamaProvider();
+  }
+}
@@ -0,0 +1,106 @@
+import { getLogger } from '@/lib/logging/logger';
+
+/**
+ * Ollama にインストール済みのモデルを検出するユーティリティ
+ */
+
+// モデル一覧の1件
+export type ModelInfo = {
+  name: string;          // Ollama 上のモデル名（例: "llama3.1:8b"）
+  modelName: string;     // AgentConfig.modelName に指定する値（例: "ollama:llama3.1:8b"）
+  size: number;          // バイト数
+  family: string | null;
+  parameterSize: string | null;
+  contextLength: number | null;
+  capabilities: string[];
+};
+
+// モデル一覧の取得結果
+export type ModelListResult = {
+  available: boolean;    // Ollama に接続できたか
+  error: string | null;
+  models: ModelInfo[];
+  fetchedAt: number;
+};
+
+// キャッシュの有効期間（ミリ秒）
+const CACHE_TTL = 30 * 1000;
+// Ollama への接続タイムアウト（ミリ秒）
+const REQUEST_TIMEOUT = 5000;
+
+let cache: ModelListResult | null = null;
+
+/**
+ * インストール済みモデルの一覧を取得する
+ * 結果は一定時間キャッシュし、Ollama に接続できない場合は available: false を返す
+ */
+export async function listOllamaModels(forceRefresh = false): Promise<ModelListResult> {
+  if (!forceRefresh && cache && Date.now() - cache.fetchedAt < CACHE_TTL) {
+    return cache;
+  }
+
+  const baseUrl = (process.env.OLLAMA_BASE_URL || 'http://localhost:11434').replace(/\/$/, '');
+
+  try {
+    const response = await fetch(`${baseUrl}/api/tags`, {
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+    });
+    if (!response.ok) {
+      throw new Error(`Ollama responded with ${response.status}`);
+    }
+
+    const { models = [] } = await response.json();
+    const detailed = await Promise.all(
+      models.map((model: any) => describeModel(baseUrl, model))
+    );
+
+    cache = { available: true, error: null, models: detailed, fetchedAt: Date.now() };
+  } catch (error) {
+    getLogger().error('Error fetching Ollama models', error);
+    cache = {
+      available: false,
+      error: `Ollama unreachable: ${error instanceof Error ? error.message : String(error)}`,
+      models: [],
+      fetchedAt: Date.now(),
+    };
+  }
+
+  return cache;
+}
+
+/**
+ * /api/show でモデルの詳細（コンテキスト長・機能）を補完する
+ */
+async function describeModel(baseUrl: string, model: any): Promise<ModelInfo> {
+  const info: ModelInfo = {
+    name: model.name,
+    modelName: `ollama:${model.name}`,
+    size: model.size ?? 0,
+    family: model.details?.family ?? null,
+    parameterSize: model.details?.parameter_size ?? null,
+    contextLength: null,
+    capabilities: [],
+  };
+
+  try {
+    const response = await fetch(`${baseUrl}/api/show`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: model.name }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+    });
+    if (!response.ok) return info;
+
+    const detail = await response.json();
+    const modelInfo: Record<string, any> = detail.model_info ?? {};
+    const contextKey = Object.keys(modelInfo).find(key => key.endsWith('.context_length'));
+
+    info.contextLength = contextKey ? Number(modelInfo[contextKey]) : null;
+    info.capabilities = Array.isArray(detail.capabilities) ? detail.capabilities : [];
+  } catch (error) {
+    // 詳細が取れなくても一覧表示には支障がないため無視する
+    getLogger().warn(`Could not describe model ${model.name}`, error);
+  }
+
+  return info;
+}
@@ -0,0 +1,56 @@
+/**
+ * ストリーミングレスポンス処理用ユーティリティ
+ */
+
+/**
+ * レスポンスボディを行単位で読み出す
+ * Ollama の NDJSON と OpenAI の SSE の双方で利用する
+ */
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf('\n')) >= 0) {
+        const line = buffer.slice(0, newlineIndex).replace(/\r$/, '');
+        buffer = buffer.slice(newlineIndex + 1);
+        if (line.trim()) yield line;
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer.trim()) yield buffer;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * ステータスコードを持つHTTPエラー（再試行できるかの判定に使用する）
+ */
+export class HttpError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * HTTPエラー時にレスポンス本文を含めたエラーを生成する
+ */
+export async function httpError(provider: string, response: Response): Promise<HttpError> {
+  let detail = '';
+  try {
+    detail = await response.text();
+  } catch {
+    // 本文が読めない場合はステータスのみ
+  }
+  return new HttpError(`${provider} request failed: ${response.status} ${response.statusText}${detail ? ` - ${detail}` : ''}`, response.status);
+}
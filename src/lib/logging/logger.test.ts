@@ -0,0 +1,47 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { LogEntry, Logger } from '@/lib/logging/logger';
+
+let dir: string;
+let logger: Logger;
+let written: LogEntry[];
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'winmanus-logs-'));
+  // 小さいファイルサイズでローテーションさせ、複数のファイルにまたがって検索させる
+  logger = new Logger({ dir, level: 'debug', maxFileSize: 2000, maxFiles: 5, console: false });
+  for (let i = 1; i <= 30; i++) {
+    logger.child({ sessionId: i % 2 === 0 ? 'even' : 'odd' }).info(`message ${i}`);
+  }
+  await vi.waitFor(async () => expect(await logger.query({ limit: 1000 })).toHaveLength(30));
+  written = await logger.query({ limit: 1000 });
+});
+
+afterAll(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('Logger.query', () => {
+  it('returns the newest entries in order without a cursor', async () => {
+    const entries = await logger.query({ limit: 3 });
+    expect(entries.map(entry => entry.message)).toEqual(['message 28', 'message 29', 'message 30']);
+  });
+
+  it('returns the entries right after the cursor', async () => {
+    const entries = await logger.query({ after: written[4].seq, limit: 3 });
+    expect(entries.map(entry => entry.message)).toEqual(['message 6', 'message 7', 'message 8']);
+  });
+
+  it('filters the entries after the cursor', async () => {
+    const entries = await logger.query({ after: written[0].seq, sessionId: 'even', limit: 2 });
+    expect(entries.map(entry => entry.message)).toEqual(['message 2', 'message 4']);
+  });
+
+  it('spans rotated files', async () => {
+    const files = await fs.readdir(dir);
+    expect(files.length).toBeGreaterThan(1);
+    expect(await logger.query({ after: written[0].seq, limit: 1000 })).toHaveLength(29);
+  });
+});
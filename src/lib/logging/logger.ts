@@ -0,0 +1,329 @@
+import fs from 'fs';
+import path from 'path';
+import { redact, redactString } from '@/lib/logging/redact';
+
+// ログの重要度
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+// ログを関連付ける識別子
+export type LogContext = {
+  sessionId?: string | null;
+  taskId?: string | null;
+};
+
+// 1件のログ（JSON Lines の1行として保存する）
+export type LogEntry = {
+  seq: number;  // 記録順に増える通し番号（取得の続きを指定するカーソルに使用）
+  time: number;
+  level: LogLevel;
+  message: string;
+  sessionId?: string;
+  taskId?: string;
+  data?: unknown;
+};
+
+// ログの検索条件
+export type LogQuery = {
+  sessionId?: string;
+  taskId?: string;
+  level?: LogLevel;  // この重要度以上のログのみ
+  search?: string;   // メッセージ・データに含まれる文字列
+  after?: number;    // この通し番号より後のログのみ
+  limit?: number;
+};
+
+// ロガーの設定
+export type LoggerOptions = {
+  dir: string;          // ログファイルの保存先
+  level: LogLevel;      // 記録する最低の重要度
+  maxFileSize: number;  // 1ファイルの最大サイズ（超えたらローテーションする）
+  maxFiles: number;     // ローテーションで残す古いファイルの数
+  console: boolean;     // コンソールにも出力するか
+};
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+const LOG_FILE_NAME = 'agent.log';
+// 検索で返す最大件数
+const MAX_QUERY_LIMIT = 1000;
+
+/**
+ * ログファイルのパスを新しい順に取得する
+ */
+function logFiles(options: LoggerOptions): string[] {
+  const ext = path.extname(LOG_FILE_NAME);
+  const base = LOG_FILE_NAME.slice(0, -ext.length);
+  return [
+    path.join(options.dir, LOG_FILE_NAME),
+    ...Array.from({ length: options.maxFiles }, (_, i) => path.join(options.dir, `${base}.${i + 1}${ext}`)),
+  ];
+}
+
+/**
+ * ログファイルを行ごとに読み込む（ファイルがなければ空）
+ * リクエストの処理中に呼ばれるため、イベントループを止めないよう非同期に読む
+ */
+async function readLogLines(file: string): Promise<string[]> {
+  try {
+    return (await fs.promises.readFile(file, 'utf8')).split('\n');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+/**
+ * ログの1行を解析する（空行・書き込み途中の行は null）
+ */
+function parseLogLine(line: string): LogEntry | null {
+  if (!line) return null;
+  try {
+    return JSON.parse(line);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * ログファイルへの追記を1つずつ順に行うクラス（ロガーとその子で共有する）
+ * 記録の呼び出し元を待たせないよう行をバッファにため、まとめて非同期に追記・ローテーションする
+ */
+class LogWriter {
+  private lastSeq = 0;
+  private buffer: string[] = [];
+  private flushing: Promise<void> | null = null;
+  // 保存先の作成（初回の書き込み時に1度だけ行う）
+  private dirReady: Promise<unknown> | null = null;
+  // 現在のファイルのサイズ（初回の書き込み時に取得し、以降は追記した分を加える）
+  private size: number | null = null;
+
+  constructor(private readonly options: LoggerOptions) {}
+
+  /**
+   * 次の通し番号を発行する
+   * 再起動をまたいでも増え続けるよう、現在時刻（マイクロ秒単位）を下限とする
+   */
+  nextSeq(): number {
+    this.lastSeq = Math.max(this.lastSeq + 1, Date.now() * 1000);
+    return this.lastSeq;
+  }
+
+  /**
+   * 1行を書き込み待ちに追加する
+   */
+  append(line: string): void {
+    this.buffer.push(line);
+    this.schedule();
+  }
+
+  /**
+   * 書き込み中でなければ、たまっている行の書き込みを始める
+   */
+  private schedule() {
+    if (this.flushing || this.buffer.length === 0) return;
+    this.flushing = this.flush()
+      .catch((error) => {
+        // ログの記録の失敗で処理を止めない（保存先は次の書き込みで作成し直す）
+        this.dirReady = null;
+        this.size = null;
+        console.error('Error writing log:', error);
+      })
+      .finally(() => {
+        this.flushing = null;
+        this.schedule();
+      });
+  }
+
+  /**
+   * たまっている行をまとめて現在のファイルに追記する
+   * サイズの上限を超える行の手前でファイルを切り替える
+   */
+  private async flush() {
+    const lines = this.buffer;
+    this.buffer = [];
+
+    this.dirReady ??= fs.promises.mkdir(this.options.dir, { recursive: true });
+    await this.dirReady;
+    const [current] = logFiles(this.options);
+    let size = this.size ?? await fs.promises.stat(current).then(stat => stat.size, () => 0);
+
+    let chunk = '';
+    for (const line of lines) {
+      const bytes = Buffer.byteLength(line);
+      if (size > 0 && size + bytes > this.options.maxFileSize) {
+        if (chunk) await fs.promises.appendFile(current, chunk);
+        await this.rotate();
+        chunk = '';
+        size = 0;
+      }
+      chunk += line;
+      size += bytes;
+    }
+
+    await fs.promises.appendFile(current, chunk);
+    this.size = size;
+  }
+
+  /**
+   * 古いファイルを1つずつずらして新しいファイルに切り替える
+   */
+  private async rotate() {
+    const [current, ...rotated] = logFiles(this.options);
+    await fs.promises.rm(rotated[rotated.length - 1], { force: true });
+    for (let i = rotated.length - 1; i > 0; i--) {
+      await fs.promises.rename(rotated[i - 1], rotated[i]).catch((error: NodeJS.ErrnoException) => {
+        if (error.code !== 'ENOENT') throw error;
+      });
+    }
+    await fs.promises.rename(current, rotated[0]);
+  }
+}
+
+/**
+ * 構造化ログを JSON Lines 形式でファイルに記録するクラス
+ * 秘密情報を伏せてから記録し、ファイルが大きくなったら agent.1.log, agent.2.log ... へローテーションする
+ */
+export class Logger {
+  constructor(
+    private readonly options: LoggerOptions,
+    private readonly context: LogContext = {},
+    private readonly writer: LogWriter = new LogWriter(options),
+  ) {}
+
+  /**
+   * セッション・タスクを関連付けたロガーを作成する
+   */
+  child(context: LogContext): Logger {
+    return new Logger(this.options, { ...this.context, ...context }, this.writer);
+  }
+
+  debug(message: string, data?: unknown): void {
+    this.write('debug', message, data);
+  }
+
+  info(message: string, data?: unknown): void {
+    this.write('info', message, data);
+  }
+
+  warn(message: string, data?: unknown): void {
+    this.write('warn', message, data);
+  }
+
+  error(message: string, data?: unknown): void {
+    this.write('error', message, data);
+  }
+
+  /**
+   * 条件に合うログを古い順に返す
+   * after を指定すると、その通し番号より後のログを古いものから limit 件返す（続きの取得に使う）
+   * 指定しなければ、新しいものから limit 件を探して古い順に並べて返す
+   * 書き込み待ちのログは含まれない
+   */
+  async query(query: LogQuery = {}): Promise<LogEntry[]> {
+    const limit = Math.min(query.limit ?? 200, MAX_QUERY_LIMIT);
+    const search = query.search?.toLowerCase();
+    const matches = (entry: LogEntry, line: string) =>
+      (!query.sessionId || entry.sessionId === query.sessionId)
+      && (!query.taskId || entry.taskId === query.taskId)
+      && (!query.level || LEVEL_ORDER[entry.level] >= LEVEL_ORDER[query.level])
+      && (!search || line.toLowerCase().includes(search));
+
+    if (query.after !== undefined) {
+      return this.queryAfter(query.after, limit, matches);
+    }
+
+    const entries: LogEntry[] = [];
+    for (const file of logFiles(this.options)) {
+      const lines = await readLogLines(file);
+      for (let i = lines.length - 1; i >= 0 && entries.length < limit; i--) {
+        const entry = parseLogLine(lines[i]);
+        if (entry && matches(entry, lines[i])) entries.push(entry);
+      }
+      if (entries.length >= limit) break;
+    }
+
+    return entries.reverse();
+  }
+
+  /**
+   * 通し番号が after より後のログを古いものから limit 件返す
+   * after を含むファイルまで新しいものから遡り、そこから順に読む
+   */
+  private async queryAfter(after: number, limit: number, matches: (entry: LogEntry, line: string) => boolean): Promise<LogEntry[]> {
+    const files: string[][] = [];
+    for (const file of logFiles(this.options)) {
+      const lines = await readLogLines(file);
+      if (lines.length === 0) continue;
+      files.unshift(lines);
+      const first = lines.find(line => parseLogLine(line) !== null);
+      if (first && (parseLogLine(first)!.seq ?? 0) <= after) break;
+    }
+
+    const entries: LogEntry[] = [];
+    for (const lines of files) {
+      for (const line of lines) {
+        const entry = parseLogLine(line);
+        if (!entry || (entry.seq ?? 0) <= after || !matches(entry, line)) continue;
+        entries.push(entry);
+        if (entries.length >= limit) return entries;
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * ログを1件記録する
+   */
+  private write(level: LogLevel, message: string, data?: unknown) {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[this.options.level]) return;
+
+    const entry: LogEntry = {
+      seq: this.writer.nextSeq(),
+      time: Date.now(),
+      level,
+      message: redactString(message),
+      ...(this.context.sessionId ? { sessionId: this.context.sessionId } : {}),
+      ...(this.context.taskId ? { taskId: this.context.taskId } : {}),
+      ...(data !== undefined ? { data: redact(data) } : {}),
+    };
+
+    if (this.options.console) {
+      const prefix = [this.context.sessionId, this.context.taskId].filter(Boolean).map(id => `[${id!.slice(0, 8)}]`).join('');
+      const method = level === 'debug' ? 'log' : level;
+      console[method](prefix ? `${prefix} ${entry.message}` : entry.message, ...(data !== undefined ? [entry.data] : []));
+    }
+
+    this.writer.append(`${JSON.stringify(entry)}\n`);
+  }
+}
+
+/**
+ * API Routes とカスタムサーバーで同じ設定のロガーを共有するため globalThis に保持する
+ */
+const globalForLogger = globalThis as unknown as {
+  __winmanusLogger?: Logger;
+};
+
+/**
+ * ロガーを取得する（context を指定するとセッション・タスクを関連付ける）
+ * 保存先は AGENT_LOG_DIR（既定は .data/logs）、記録する重要度は AGENT_LOG_LEVEL（既定は info）
+ */
+export function getLogger(context?: LogContext): Logger {
+  if (!globalForLogger.__winmanusLogger) {
+    const level = process.env.AGENT_LOG_LEVEL as LogLevel;
+    globalForLogger.__winmanusLogger = new Logger({
+      dir: path.resolve(process.env.AGENT_LOG_DIR || path.join(process.cwd(), '.data', 'logs')),
+      level: level in LEVEL_ORDER ? level : 'info',
+      maxFileSize: Number(process.env.AGENT_LOG_MAX_BYTES) || 5 * 1024 * 1024,
+      maxFiles: Number(process.env.AGENT_LOG_MAX_FILES) || 5,
+      console: process.env.AGENT_LOG_CONSOLE !== 'false',
+    });
+  }
+  return context ? globalForLogger.__winmanusLogger.child(context) : globalForLogger.__winmanusLogger;
+}
+
+/**
+ * 開発者向けの機能（ログの閲覧など）を有効にするか
+ */
+export function isDeveloperMode(): boolean {
+  return process.env.AGENT_DEV_MODE === 'true' || process.env.NODE_ENV !== 'production';
+}
@@ -0,0 +1,86 @@
+/**
+ * ログに出力する値から API キー・トークン・パスワードなどの秘密情報を取り除くユーティリティ
+ */
+
+// 置き換え後の文字列
+export const REDACTED = '[REDACTED]';
+
+// 値を丸ごと伏せるキー名
+const SECRET_KEY_PATTERN = /api[-_]?key|token|secret|password|passwd|pwd|authorization|cookie|credential|private[-_]?key/i;
+
+// 文字列中の秘密情報の形式（キー＝値の形式は値の部分だけを伏せる）
+const SECRET_VALUE_PATTERNS: [RegExp, string][] = [
+  [/\bBearer\s+[\w\-.~+/]+=*/gi, `Bearer ${REDACTED}`],
+  [/\bsk-[\w-]{16,}/g, REDACTED],
+  [/\bgh[pousr]_[A-Za-z0-9]{20,}/g, REDACTED],
+  [/\bxox[abprs]-[\w-]{10,}/g, REDACTED],
+  [/\bAKIA[0-9A-Z]{16}\b/g, REDACTED],
+  [/\beyJ[\w-]+\.[\w-]+\.[\w-]+/g, REDACTED],
+  [/\b(api[-_]?key|token|secret|password|passwd|pwd)(["']?\s*[:=]\s*["']?)[^\s"'&,;]+/gi, `$1$2${REDACTED}`],
+];
+
+// 秘密情報として扱う環境変数の名前と、伏せる値の最小の長さ
+const SECRET_ENV_PATTERN = /KEY|TOKEN|SECRET|PASSWORD|PASS|CREDENTIAL|AUTH/i;
+const MIN_SECRET_ENV_LENGTH = 6;
+// 入れ子の深さの上限（循環参照への対策を兼ねる）
+const MAX_DEPTH = 8;
+
+/**
+ * 値に含まれる秘密情報を伏せた複製を返す
+ * 秘密情報らしいキーの値、既知の形式のトークン、環境変数に設定された秘密の値を置き換える
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return redactString(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[Truncated]';
+
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactString(value.message),
+      ...(value.stack ? { stack: redactString(value.stack) } : {}),
+    };
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = SECRET_KEY_PATTERN.test(key) && item !== null && item !== undefined && item !== ''
+      ? REDACTED
+      : redact(item, depth + 1);
+  }
+  return result;
+}
+
+/**
+ * 文字列中の秘密情報を伏せる
+ */
+export function redactString(text: string): string {
+  let result = text;
+  for (const secret of getSecretEnvValues()) {
+    result = result.split(secret).join(REDACTED);
+  }
+  for (const [pattern, replacement] of SECRET_VALUE_PATTERNS) {
+    result = result.replace(pattern, replacement);
+  }
+  return result;
+}
+
+// 環境変数に設定された秘密の値（初回の使用時に収集する）
+let secretEnvValues: string[] | null = null;
+
+/**
+ * 秘密情報として扱う環境変数の値を取得する（長いものから置き換えるため降順に並べる）
+ */
+function getSecretEnvValues(): string[] {
+  if (!secretEnvValues) {
+    secretEnvValues = Object.entries(process.env)
+      .filter(([name, value]) => SECRET_ENV_PATTERN.test(name) && !!value && value.length >= MIN_SECRET_ENV_LENGTH)
+      .map(([, value]) => value!)
+      .sort((a, b) => b.length - a.length);
+  }
+  return secretEnvValues;
+}
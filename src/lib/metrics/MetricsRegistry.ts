@@ -0,0 +1,155 @@
+// メトリクスのラベル（ラベル名→値）
+export type Labels = Record<string, string>;
+
+// 既定のヒストグラムのバケット（秒）
+export const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+/**
+ * メトリクスの共通部分（名前・説明・ラベルの組ごとの値）
+ */
+abstract class Metric<T> {
+  protected readonly values = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: 'counter' | 'gauge' | 'histogram',
+  ) {}
+
+  /**
+   * Prometheus のテキスト形式の行を出力する
+   */
+  abstract render(): string[];
+
+  /**
+   * ラベルの組に対応する値を取得する（なければ作成する）
+   */
+  protected entry(labels: Labels, create: () => T): { labels: Labels; value: T } {
+    const key = JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+    let entry = this.values.get(key);
+    if (!entry) {
+      entry = { labels, value: create() };
+      this.values.set(key, entry);
+    }
+    return entry;
+  }
+}
+
+/**
+ * 増加のみする累積値
+ */
+export class Counter extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    this.entry(labels, () => 0).value += value;
+  }
+
+  render(): string[] {
+    return [...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+  }
+}
+
+/**
+ * 増減する現在値
+ */
+export class Gauge extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge');
+  }
+
+  set(labels: Labels, value: number): void {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    this.entry(labels, () => 0).value += value;
+  }
+
+  dec(labels: Labels = {}, value = 1): void {
+    this.entry(labels, () => 0).value -= value;
+  }
+
+  render(): string[] {
+    return [...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+  }
+}
+
+/**
+ * 観測値の分布（バケットごとの累積件数・合計・件数）
+ */
+export class Histogram extends Metric<{ counts: number[]; sum: number; count: number }> {
+  constructor(
+    name: string,
+    help: string,
+    private readonly buckets: number[] = DEFAULT_BUCKETS,
+  ) {
+    super(name, help, 'histogram');
+  }
+
+  observe(labels: Labels, value: number): void {
+    const { value: data } = this.entry(labels, () => ({ counts: this.buckets.map(() => 0), sum: 0, count: 0 }));
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) data.counts[index]++;
+    });
+    data.sum += value;
+    data.count++;
+  }
+
+  render(): string[] {
+    return [...this.values.values()].flatMap(({ labels, value }) => [
+      ...this.buckets.map((bound, index) => `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${value.counts[index]}`),
+      `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`,
+      `${this.name}_sum${formatLabels(labels)} ${value.sum}`,
+      `${this.name}_count${formatLabels(labels)} ${value.count}`,
+    ]);
+  }
+}
+
+/**
+ * メトリクスを登録し、Prometheus のテキスト形式で出力するクラス
+ */
+export class MetricsRegistry {
+  private metrics: Metric<unknown>[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  /**
+   * 登録したメトリクスを Prometheus のテキスト形式（text/plain; version=0.0.4）で出力する
+   */
+  render(): string {
+    const lines = this.metrics.flatMap(metric => [
+      `# HELP ${metric.name} ${metric.help}`,
+      `# TYPE ${metric.name} ${metric.type}`,
+      ...metric.render(),
+    ]);
+    return `${lines.join('\n')}\n`;
+  }
+
+  private register<T extends Metric<any>>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+/**
+ * ラベルを {name="value",...} の形式にする（値の \ " 改行はエスケープする）
+ */
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  const formatted = entries.map(([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`);
+  return `{${formatted.join(',')}}`;
+}
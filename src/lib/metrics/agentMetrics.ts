@@ -0,0 +1,46 @@
+import { MetricsRegistry } from '@/lib/metrics/MetricsRegistry';
+
+// モデル呼び出しの所要時間のバケット（秒）
+const MODEL_REQUEST_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60, 120];
+// フェーズの所要時間のバケット（秒）
+const PHASE_BUCKETS = [0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600, 1800];
+
+/**
+ * エージェントサーバーのメトリクスを作成する
+ * セッション数・キューのタスク数は /api/metrics の取得時に現在の値を設定する
+ */
+function createAgentMetrics() {
+  const registry = new MetricsRegistry();
+  return {
+    registry,
+    tasksStarted: registry.counter('winmanus_tasks_started_total', 'Tasks started, including tasks resumed from a checkpoint'),
+    tasksFinished: registry.counter('winmanus_tasks_finished_total', 'Tasks finished, by final status'),
+    phaseDuration: registry.histogram('winmanus_phase_duration_seconds', 'Time spent in each agent loop phase', PHASE_BUCKETS),
+    toolCalls: registry.counter('winmanus_tool_calls_total', 'Tool calls, by tool'),
+    toolErrors: registry.counter('winmanus_tool_errors_total', 'Tool calls that failed, by tool'),
+    modelRequestDuration: registry.histogram('winmanus_model_request_duration_seconds', 'Model request latency, by provider and outcome', MODEL_REQUEST_BUCKETS),
+    activeSessions: registry.gauge('winmanus_active_sessions', 'Sessions loaded in memory'),
+    runningTasks: registry.gauge('winmanus_running_tasks', 'Tasks currently running'),
+    queuedTasks: registry.gauge('winmanus_queued_tasks', 'Tasks waiting in the queue'),
+    connectedClients: registry.gauge('winmanus_connected_clients', 'Connected clients, by transport'),
+  };
+}
+
+export type AgentMetrics = ReturnType<typeof createAgentMetrics>;
+
+/**
+ * API Routes とカスタムサーバー（WebSocket）で同じ値を集計するため globalThis に保持する
+ */
+const globalForMetrics = globalThis as unknown as {
+  __winmanusMetrics?: AgentMetrics;
+};
+
+/**
+ * エージェントサーバーのメトリクスを取得する
+ */
+export function getMetrics(): AgentMetrics {
+  if (!globalForMetrics.__winmanusMetrics) {
+    globalForMetrics.__winmanusMetrics = createAgentMetrics();
+  }
+  return globalForMetrics.__winmanusMetrics;
+}
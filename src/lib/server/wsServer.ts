@@ -0,0 +1,196 @@
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { WebSocket, WebSocketServer } from 'ws';
+import { WebSocketPayload } from '@/lib/agent/AgentTypes';
+import { enqueueTask, getOrCreateAgent, getStateSnapshot, resumeSessionTask, subscribeToSession, updateSessionSettings } from '@/lib/agent/agentSessions';
+import { getLogger } from '@/lib/logging/logger';
+import { getMetrics } from '@/lib/metrics/agentMetrics';
+import { normalizeAttachments } from '@/lib/tools/uploads';
+import { isValidSessionId } from '@/lib/utils/sessionId';
+
+// WebSocket のエンドポイント
+export const WS_PATH = '/api/ws';
+// 死活監視の間隔（ミリ秒）
+const HEARTBEAT_INTERVAL = 30 * 1000;
+
+// クライアントから受け取るメッセージ
+type ClientMessage = {
+  type: string;
+  data?: any;
+};
+
+/**
+ * HTTPサーバーに WebSocket エンドポイントを取り付ける
+ * /api/ws 以外のアップグレード要求（Next.js の HMR など）は fallback に委譲する
+ */
+export function attachWebSocketServer(
+  server: Server,
+  fallback?: (req: IncomingMessage, socket: Duplex, head: Buffer) => void,
+): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', (req, socket, head) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (url.pathname !== WS_PATH) {
+      fallback?.(req, socket, head);
+      return;
+    }
+
+    const sessionId = url.searchParams.get('sessionId');
+    if (!isValidSessionId(sessionId)) {
+      socket.write('HTTP/1.1 400 Bad Request\r\n\r\nA valid session ID is required');
+      socket.destroy();
+      return;
+    }
+
+    const lastEventId = url.searchParams.get('lastEventId');
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      handleConnection(ws, sessionId, lastEventId ? Number(lastEventId) : undefined);
+    });
+  });
+
+  // 応答のないソケットを定期的に切断する
+  const alive = new WeakMap<WebSocket, boolean>();
+  wss.on('connection', (ws) => {
+    alive.set(ws, true);
+    ws.on('pong', () => alive.set(ws, true));
+  });
+  const heartbeat = setInterval(() => {
+    for (const ws of wss.clients) {
+      if (!alive.get(ws)) {
+        ws.terminate();
+        continue;
+      }
+      alive.set(ws, false);
+      ws.ping();
+    }
+  }, HEARTBEAT_INTERVAL);
+  wss.on('close', () => clearInterval(heartbeat));
+
+  return wss;
+}
+
+/**
+ * 接続したソケットをセッションに登録する
+ */
+function handleConnection(ws: WebSocket, sessionId: string, lastEventId?: number) {
+  const log = getLogger({ sessionId });
+  log.info('WebSocket connected', { lastEventId });
+  getMetrics().connectedClients.inc({ transport: 'websocket' });
+
+  // エージェントの状態更新をクライアントに送信
+  const unsubscribe = subscribeToSession(
+    sessionId,
+    (event) => send(ws, { ...event.payload, id: event.id }),
+    lastEventId,
+  );
+
+  // WebSocketメッセージのハンドリング
+  ws.on('message', (raw) => {
+    try {
+      const message = JSON.parse(raw.toString()) as ClientMessage;
+      handleClientMessage(ws, sessionId, message);
+    } catch (error) {
+      log.error('WebSocket message error', error);
+      send(ws, { type: 'error', data: { message: 'Invalid message' } });
+    }
+  });
+
+  // 接続切れのハンドリング（エージェントは維持し、購読のみ解除する）
+  ws.on('close', () => {
+    unsubscribe();
+    getMetrics().connectedClients.dec({ transport: 'websocket' });
+    log.info('WebSocket connection closed');
+  });
+
+  ws.on('error', (error) => {
+    log.error('WebSocket error', error);
+  });
+}
+
+/**
+ * クライアントからのメッセージを処理する
+ */
+function handleClientMessage(ws: WebSocket, sessionId: string, message: ClientMessage) {
+  const agent = getOrCreateAgent(sessionId);
+
+  switch (message.type) {
+    case 'start-task': {
+      const task = message.data?.task;
+      if (!task || typeof task !== 'string') {
+        send(ws, { type: 'error', data: { message: 'Task is required' } });
+        return;
+      }
+      enqueueTask(sessionId, task, normalizeAttachments(sessionId, message.data?.attachments));
+      break;
+    }
+
+    case 'set-model': {
+      const modelName = message.data?.modelName;
+      if (!modelName || typeof modelName !== 'string') {
+        send(ws, { type: 'error', data: { message: 'Model name is required' } });
+        return;
+      }
+      updateSessionSettings(sessionId, { modelName });
+      break;
+    }
+
+    case 'pause':
+    case 'resume':
+    case 'cancel': {
+      const applied = message.type === 'pause'
+        ? agent.pause()
+        : message.type === 'resume'
+          ? resumeSessionTask(sessionId)
+          : agent.cancel();
+      if (!applied) {
+        send(ws, { type: 'error', data: { message: `Cannot ${message.type} in the current state` } });
+      }
+      break;
+    }
+
+    case 'answer': {
+      const { questionId, answer } = message.data ?? {};
+      if (!questionId || typeof answer !== 'string') {
+        send(ws, { type: 'error', data: { message: 'Question ID and answer are required' } });
+        return;
+      }
+      if (!agent.answerQuestion(questionId, answer)) {
+        send(ws, { type: 'error', data: { message: 'No matching question is waiting for an answer' } });
+      }
+      break;
+    }
+
+    case 'approval': {
+      const { requestId, decision } = message.data ?? {};
+      if (!requestId || !['approve', 'deny', 'always-allow'].includes(decision)) {
+        send(ws, { type: 'error', data: { message: 'Request ID and a valid decision are required' } });
+        return;
+      }
+      if (!agent.decideApproval(requestId, decision)) {
+        send(ws, { type: 'error', data: { message: 'No matching operation is waiting for approval' } });
+      }
+      break;
+    }
+
+    case 'sync': {
+      // 差分の適用に失敗したクライアントに状態全体を送り直す
+      send(ws, getStateSnapshot(sessionId));
+      break;
+    }
+
+    default:
+      send(ws, { type: 'error', data: { message: `Unknown message type: ${message.type}` } });
+  }
+}
+
+/**
+ * ソケットが開いていればペイロードを送信する
+ */
+function send(ws: WebSocket, payload: WebSocketPayload) {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(payload));
+  }
+}
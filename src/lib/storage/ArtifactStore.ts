@@ -0,0 +1,122 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Artifact } from '@/lib/agent/AgentTypes';
+import { getLogger } from '@/lib/logging/logger';
+import { SessionStore, getSessionStore } from '@/lib/storage/SessionStore';
+import { resolveInWorkspace } from '@/lib/tools/workspace';
+import { getMimeType } from '@/lib/utils/mimeTypes';
+import { getSessionDirectory } from '@/lib/utils/sessionId';
+
+// 成果物として保存するファイルの最大サイズ（これを超えるファイルは保存しない）
+const MAX_ARTIFACT_SIZE = Number(process.env.AGENT_MAX_ARTIFACT_BYTES) || 50 * 1024 * 1024;
+
+/**
+ * タスクで作成・変更されたファイルを成果物として保存するクラス
+ * ワークスペースのファイルは後続のタスクで変更されるため、タスク終了時の内容を複製して保持する
+ */
+export class ArtifactStore {
+  constructor(
+    private readonly store: SessionStore,
+    private readonly dir: string,
+  ) {}
+
+  /**
+   * ワークスペース内のファイルを成果物として保存する
+   * 存在しないファイル・ディレクトリ・大きすぎるファイルは保存しない
+   */
+  async capture(sessionId: string, taskId: string, paths: string[]): Promise<Artifact[]> {
+    const artifacts: Artifact[] = [];
+
+    for (const relativePath of [...new Set(paths)]) {
+      try {
+        const source = await resolveInWorkspace(sessionId, relativePath);
+        const stat = await fs.stat(source);
+        if (!stat.isFile()) continue;
+        if (stat.size > MAX_ARTIFACT_SIZE) {
+          getLogger({ sessionId, taskId }).warn(`Skipping artifact larger than ${MAX_ARTIFACT_SIZE} bytes: ${relativePath}`);
+          continue;
+        }
+
+        const artifact: Artifact = {
+          id: uuidv4(),
+          sessionId,
+          taskId,
+          path: relativePath,
+          name: path.basename(relativePath),
+          mimeType: getMimeType(relativePath),
+          size: stat.size,
+          createdAt: Date.now(),
+        };
+        await fs.mkdir(path.join(this.dir, sessionId), { recursive: true });
+        await fs.copyFile(source, this.filePath(artifact));
+        this.store.saveArtifact(artifact);
+        artifacts.push(artifact);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+        getLogger({ sessionId, taskId }).error(`Error capturing artifact ${relativePath}`, error);
+      }
+    }
+
+    return artifacts;
+  }
+
+  /**
+   * 成果物の情報を取得する
+   */
+  get(id: string): Artifact | null {
+    return this.store.getArtifact(id);
+  }
+
+  /**
+   * セッションの成果物を古い順に取得する
+   */
+  list(sessionId: string): Artifact[] {
+    return this.store.listArtifacts(sessionId);
+  }
+
+  /**
+   * 成果物の内容を読み込む
+   */
+  read(artifact: Artifact): Promise<Buffer> {
+    return fs.readFile(this.filePath(artifact));
+  }
+
+  /**
+   * セッションの成果物のファイルを削除する（情報はセッションの削除で合わせて削除される）
+   * 保存先の直下にあるセッションのディレクトリ以外は削除しない
+   */
+  async removeSession(sessionId: string): Promise<void> {
+    const dir = getSessionDirectory(this.dir, sessionId);
+    if (!dir) {
+      throw new Error(`Refusing to remove artifacts for invalid session ID: ${sessionId}`);
+    }
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+
+  /**
+   * 成果物の内容の保存先
+   */
+  private filePath(artifact: Artifact): string {
+    return path.join(this.dir, artifact.sessionId, artifact.id);
+  }
+}
+
+/**
+ * API Routes とカスタムサーバーで同じインスタンスを共有するため globalThis に保持する
+ */
+const globalForArtifacts = globalThis as unknown as {
+  __winmanusArtifacts?: ArtifactStore;
+};
+
+/**
+ * 成果物ストアを取得する
+ * 保存先は AGENT_ARTIFACT_DIR（既定は .data/artifacts）
+ */
+export function getArtifactStore(): ArtifactStore {
+  if (!globalForArtifacts.__winmanusArtifacts) {
+    const dir = path.resolve(process.env.AGENT_ARTIFACT_DIR || path.join(process.cwd(), '.data', 'artifacts'));
+    globalForArtifacts.__winmanusArtifacts = new ArtifactStore(getSessionStore(), dir);
+  }
+  return globalForArtifacts.__winmanusArtifacts;
+}
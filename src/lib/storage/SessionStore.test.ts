@@ -0,0 +1,42 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { SessionStore } from '@/lib/storage/SessionStore';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'winmanus-store-'));
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('SessionStore', () => {
+  it('adds the usage column to a history table created by an earlier version', () => {
+    const filename = path.join(dir, 'old.db');
+    const old = new Database(filename);
+    old.exec(`
+      CREATE TABLE history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        task_id TEXT NOT NULL,
+        action TEXT NOT NULL,
+        result TEXT,
+        timestamp INTEGER NOT NULL
+      );
+    `);
+    old.close();
+
+    const store = new SessionStore(filename);
+    store.saveSession('old-session', { modelName: 'mock:default', approvalThreshold: 'high' });
+    store.saveTask('old-session', 'task-1', { currentTask: 'タスク', status: 'completed', progress: 100, error: null, history: [] } as any);
+    store.appendHistory('task-1', [{ action: 'execution', result: { ok: true }, usage: { promptTokens: 1 }, timestamp: 1 } as any]);
+
+    expect(store.getHistory('task-1')).toEqual([
+      { action: 'execution', result: { ok: true }, usage: { promptTokens: 1 }, timestamp: 1 },
+    ]);
+    store.close();
+
+    // 列が既にあれば追加し直さない
+    expect(() => new SessionStore(filename).close()).not.toThrow();
+  });
+});
@@ -0,0 +1,369 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type { AgentState } from '@/lib/agent/AgentLoop';
+import { Artifact } from '@/lib/agent/AgentTypes';
+import { ChatMessage } from '@/lib/llm/LLMTypes';
+import { ApprovalThreshold } from '@/lib/tools/PolicyEngine';
+
+// 保存済みのセッション
+export type StoredSession = {
+  id: string;
+  modelName: string | null;
+  approvalThreshold: ApprovalThreshold | null;
+  createdAt: number;
+  updatedAt: number;
+};
+
+// 保存済みのタスク（state には履歴を除いたエージェントの状態を持つ）
+export type StoredTask = {
+  id: string;
+  sessionId: string;
+  task: string;
+  status: AgentState['status'];
+  progress: number;
+  error: string | null;
+  state: Omit<AgentState, 'history'>;
+  createdAt: number;
+  updatedAt: number;
+};
+
+// 保存済みの履歴エントリ
+export type StoredHistoryEntry = AgentState['history'][number];
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    model_name TEXT,
+    approval_threshold TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS tasks (
+    id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    task TEXT NOT NULL,
+    status TEXT NOT NULL,
+    progress INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    state TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_tasks_session ON tasks(session_id, created_at);
+
+  CREATE TABLE IF NOT EXISTS messages (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    role TEXT NOT NULL,
+    content TEXT NOT NULL,
+    tool_calls TEXT,
+    tool_call_id TEXT,
+    name TEXT,
+    timestamp INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_messages_task ON messages(task_id, id);
+
+  CREATE TABLE IF NOT EXISTS history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    action TEXT NOT NULL,
+    result TEXT,
+    usage TEXT,
+    timestamp INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_history_task ON history(task_id, id);
+
+  CREATE TABLE IF NOT EXISTS artifacts (
+    id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    path TEXT NOT NULL,
+    name TEXT NOT NULL,
+    mime_type TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_artifacts_session ON artifacts(session_id, created_at);
+`;
+
+// 作成済みのデータベースに追加する列（CREATE TABLE IF NOT EXISTS では追加されないため）
+const ADDED_COLUMNS: { table: string; column: string; definition: string }[] = [
+  { table: 'history', column: 'usage', definition: 'TEXT' },
+];
+
+/**
+ * セッション・タスク・会話・履歴・成果物の情報を SQLite に永続化するクラス
+ * サーバー再起動後もエージェントを復元できるようにする
+ */
+export class SessionStore {
+  private db: Database.Database;
+
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.db.exec(SCHEMA);
+    this.addMissingColumns();
+  }
+
+  /**
+   * 以前の版で作成したデータベースに不足している列を追加する
+   */
+  private addMissingColumns() {
+    for (const { table, column, definition } of ADDED_COLUMNS) {
+      const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+      if (!columns.some(existing => existing.name === column)) {
+        this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      }
+    }
+  }
+
+  /**
+   * セッションを取得する
+   */
+  getSession(sessionId: string): StoredSession | null {
+    const row = this.db.prepare('SELECT * FROM sessions WHERE id = ?').get(sessionId) as any;
+    if (!row) return null;
+
+    return {
+      id: row.id,
+      modelName: row.model_name,
+      approvalThreshold: row.approval_threshold,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  /**
+   * セッションを作成または更新する
+   */
+  saveSession(sessionId: string, settings: { modelName: string; approvalThreshold: ApprovalThreshold }): void {
+    const now = Date.now();
+    this.db.prepare(`
+      INSERT INTO sessions (id, model_name, approval_threshold, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        model_name = excluded.model_name,
+        approval_threshold = excluded.approval_threshold,
+        updated_at = excluded.updated_at
+    `).run(sessionId, settings.modelName, settings.approvalThreshold, now, now);
+  }
+
+  /**
+   * セッションの最終更新日時を更新する
+   */
+  touchSession(sessionId: string): void {
+    this.db.prepare('UPDATE sessions SET updated_at = ? WHERE id = ?').run(Date.now(), sessionId);
+  }
+
+  /**
+   * タスクの状態を保存する（履歴は appendHistory で別に保存する）
+   */
+  saveTask(sessionId: string, taskId: string, state: AgentState): void {
+    const { history, ...rest } = state;
+    const now = Date.now();
+
+    this.db.prepare(`
+      INSERT INTO tasks (id, session_id, task, status, progress, error, state, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        status = excluded.status,
+        progress = excluded.progress,
+        error = excluded.error,
+        state = excluded.state,
+        updated_at = excluded.updated_at
+    `).run(taskId, sessionId, state.currentTask ?? '', state.status, state.progress, state.error, JSON.stringify(rest), now, now);
+    this.touchSession(sessionId);
+  }
+
+  /**
+   * セッションの最新のタスクを取得する
+   */
+  getLatestTask(sessionId: string): StoredTask | null {
+    const row = this.db.prepare('SELECT * FROM tasks WHERE session_id = ? ORDER BY created_at DESC, rowid DESC LIMIT 1').get(sessionId);
+    return row ? toStoredTask(row) : null;
+  }
+
+  /**
+   * セッションのタスク一覧を古い順に取得する
+   */
+  listTasks(sessionId: string): StoredTask[] {
+    return this.db.prepare('SELECT * FROM tasks WHERE session_id = ? ORDER BY created_at, rowid').all(sessionId).map(toStoredTask);
+  }
+
+  /**
+   * タスクの履歴を追記する
+   */
+  appendHistory(taskId: string, entries: StoredHistoryEntry[]): void {
+    const insert = this.db.prepare('INSERT INTO history (task_id, action, result, usage, timestamp) VALUES (?, ?, ?, ?, ?)');
+    this.db.transaction(() => {
+      for (const entry of entries) {
+        insert.run(taskId, entry.action, JSON.stringify(entry.result ?? null), entry.usage ? JSON.stringify(entry.usage) : null, entry.timestamp);
+      }
+    })();
+  }
+
+  /**
+   * タスクの履歴を取得する
+   */
+  getHistory(taskId: string): StoredHistoryEntry[] {
+    const rows = this.db.prepare('SELECT action, result, usage, timestamp FROM history WHERE task_id = ? ORDER BY id').all(taskId) as any[];
+    return rows.map(row => ({
+      action: row.action,
+      result: JSON.parse(row.result),
+      timestamp: row.timestamp,
+      ...(row.usage ? { usage: JSON.parse(row.usage) } : {}),
+    }));
+  }
+
+  /**
+   * モデルとの会話メッセージを追記する
+   */
+  appendMessage(taskId: string, message: ChatMessage): void {
+    this.db.prepare(`
+      INSERT INTO messages (task_id, role, content, tool_calls, tool_call_id, name, timestamp)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      taskId,
+      message.role,
+      message.content,
+      message.toolCalls ? JSON.stringify(message.toolCalls) : null,
+      message.toolCallId ?? null,
+      message.name ?? null,
+      Date.now(),
+    );
+  }
+
+  /**
+   * タスクの会話メッセージを取得する
+   */
+  getMessages(taskId: string): ChatMessage[] {
+    const rows = this.db.prepare('SELECT * FROM messages WHERE task_id = ? ORDER BY id').all(taskId) as any[];
+    return rows.map(row => ({
+      role: row.role,
+      content: row.content,
+      ...(row.tool_calls ? { toolCalls: JSON.parse(row.tool_calls) } : {}),
+      ...(row.tool_call_id ? { toolCallId: row.tool_call_id } : {}),
+      ...(row.name ? { name: row.name } : {}),
+    }));
+  }
+
+  /**
+   * タスクの会話メッセージを先頭から count 件だけ残して削除する
+   */
+  truncateMessages(taskId: string, count: number): void {
+    this.db.prepare(`
+      DELETE FROM messages WHERE task_id = ? AND id NOT IN (
+        SELECT id FROM messages WHERE task_id = ? ORDER BY id LIMIT ?
+      )
+    `).run(taskId, taskId, count);
+  }
+
+  /**
+   * 成果物の情報を保存する（ファイルの内容は ArtifactStore が保存する）
+   */
+  saveArtifact(artifact: Artifact): void {
+    this.db.prepare(`
+      INSERT INTO artifacts (id, session_id, task_id, path, name, mime_type, size, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(artifact.id, artifact.sessionId, artifact.taskId, artifact.path, artifact.name, artifact.mimeType, artifact.size, artifact.createdAt);
+  }
+
+  /**
+   * 成果物の情報を取得する
+   */
+  getArtifact(id: string): Artifact | null {
+    const row = this.db.prepare('SELECT * FROM artifacts WHERE id = ?').get(id);
+    return row ? toArtifact(row) : null;
+  }
+
+  /**
+   * セッションの成果物を古い順に取得する（taskId を指定した場合はそのタスクの成果物のみ）
+   */
+  listArtifacts(sessionId: string, taskId?: string): Artifact[] {
+    const rows = taskId
+      ? this.db.prepare('SELECT * FROM artifacts WHERE session_id = ? AND task_id = ? ORDER BY created_at, rowid').all(sessionId, taskId)
+      : this.db.prepare('SELECT * FROM artifacts WHERE session_id = ? ORDER BY created_at, rowid').all(sessionId);
+    return rows.map(toArtifact);
+  }
+
+  /**
+   * 最終更新が指定日時より古いセッションを関連データごと削除し、削除したセッションIDを返す
+   */
+  purgeSessionsBefore(timestamp: number, exclude: Iterable<string> = []): string[] {
+    const excluded = new Set(exclude);
+    const ids = (this.db.prepare('SELECT id FROM sessions WHERE updated_at < ?').all(timestamp) as { id: string }[])
+      .map(row => row.id)
+      .filter(id => !excluded.has(id));
+
+    const remove = this.db.prepare('DELETE FROM sessions WHERE id = ?');
+    this.db.transaction(() => {
+      for (const id of ids) remove.run(id);
+    })();
+    return ids;
+  }
+
+  /**
+   * データベースを閉じる
+   */
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * tasks テーブルの行を StoredTask に変換する
+ */
+function toStoredTask(row: any): StoredTask {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    task: row.task,
+    status: row.status,
+    progress: row.progress,
+    error: row.error,
+    state: JSON.parse(row.state),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * artifacts テーブルの行を Artifact に変換する
+ */
+function toArtifact(row: any): Artifact {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    taskId: row.task_id,
+    path: row.path,
+    name: row.name,
+    mimeType: row.mime_type,
+    size: row.size,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * API Routes とカスタムサーバーで同じ接続を共有するため globalThis に保持する
+ */
+const globalForStore = globalThis as unknown as {
+  __winmanusStore?: SessionStore;
+};
+
+/**
+ * 永続化ストアを取得する
+ * 保存先は AGENT_DB_PATH（既定は .data/winmanus.db）
+ */
+export function getSessionStore(): SessionStore {
+  if (!globalForStore.__winmanusStore) {
+    const filename = process.env.AGENT_DB_PATH || path.join(process.cwd(), '.data', 'winmanus.db');
+    globalForStore.__winmanusStore = new SessionStore(filename);
+  }
+  return globalForStore.__winmanusStore;
+}
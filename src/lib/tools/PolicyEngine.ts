@@ -0,0 +1,195 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createTwoFilesPatch } from 'diff';
+import { ToolCall } from '@/lib/llm/LLMTypes';
+import { RiskLevel, Tool } from '@/lib/tools/ToolTypes';
+import { resolveInWorkspace } from '@/lib/tools/workspace';
+
+// 承認が必要になる危険度のしきい値（never は常に承認不要）
+export type ApprovalThreshold = RiskLevel | 'never';
+
+// 危険な操作の分類
+export type RiskCategory =
+  | 'file-delete'       // ファイルの削除
+  | 'file-write'        // ファイルの書き込み
+  | 'network'           // ネットワークアクセス
+  | 'package-install'   // パッケージのインストール
+  | 'outside-workspace' // ワークスペース外への書き込み・参照
+  | 'code-execution';   // 任意のコマンド・スクリプトの実行
+
+// ツール呼び出しの危険度の評価結果
+export type RiskAssessment = {
+  tool: string;
+  riskLevel: RiskLevel;
+  categories: RiskCategory[];
+  summary: string; // 承認画面に表示する要約
+  detail: string;  // 実行されるコマンドや差分そのもの
+  scope?: string;  // 「常に許可」の対象を絞り込む値（シェルコマンドのプログラム名など）
+};
+
+const RISK_ORDER: RiskLevel[] = ['low', 'medium', 'high', 'critical'];
+
+// シェルコマンドの分類ルール
+const SHELL_RULES: { category: RiskCategory; level: RiskLevel; pattern: RegExp }[] = [
+  { category: 'file-delete', level: 'high', pattern: /(^|[;&|]\s*)(rm|rmdir|del|erase|unlink|shred)\b|\bfind\b.*\s-delete\b/ },
+  { category: 'package-install', level: 'high', pattern: /\b(npm|pnpm|yarn|bun)\s+(i|install|add)\b|\bpip3?\s+install\b|\b(apt|apt-get|yum|dnf|brew|choco|winget)\s+install\b/ },
+  { category: 'network', level: 'high', pattern: /\b(curl|wget|ssh|scp|rsync|ftp|nc|telnet)\b|\bgit\s+(clone|fetch|pull|push)\b|\bInvoke-WebRequest\b/ },
+  { category: 'outside-workspace', level: 'critical', pattern: /(^|\s|=|>)(\/(?!dev\/null\b)[\w.-]|~|\.\.(\/|\\)|[A-Za-z]:\\)/ },
+];
+
+/**
+ * ツール呼び出しの危険度を評価し、承認が必要かどうかを判定するクラス
+ * セッションごとに1つ生成し、「常に許可」の決定もここに保持する
+ */
+export class PolicyEngine {
+  private threshold: ApprovalThreshold;
+  private alwaysAllowed = new Set<string>();
+
+  constructor(threshold: ApprovalThreshold = (process.env.AGENT_APPROVAL_THRESHOLD as ApprovalThreshold) || 'high') {
+    this.threshold = threshold;
+  }
+
+  /**
+   * 承認のしきい値を取得する
+   */
+  getThreshold(): ApprovalThreshold {
+    return this.threshold;
+  }
+
+  /**
+   * 承認のしきい値を変更する
+   */
+  setThreshold(threshold: ApprovalThreshold): void {
+    this.threshold = threshold;
+  }
+
+  /**
+   * ツール呼び出しの危険度を評価する
+   */
+  async assess(call: ToolCall, tool: Tool, sessionId: string): Promise<RiskAssessment> {
+    const args = call.arguments;
+
+    switch (tool.name) {
+      case 'shell':
+        return assessShellCommand(String(args.command ?? ''));
+
+      case 'write_file':
+        return {
+          tool: tool.name,
+          riskLevel: 'medium',
+          categories: ['file-write'],
+          summary: `${args.append ? 'ファイルに追記' : 'ファイルを書き込み'}: ${args.path}`,
+          detail: await diffWrite(sessionId, String(args.path ?? ''), String(args.content ?? ''), !!args.append),
+        };
+
+      case 'patch_file':
+        return {
+          tool: tool.name,
+          riskLevel: 'medium',
+          categories: ['file-write'],
+          summary: `ファイルにパッチを適用: ${args.path}`,
+          detail: String(args.patch ?? ''),
+        };
+
+      case 'browser':
+        if (args.action === 'evaluate') {
+          return {
+            tool: tool.name,
+            riskLevel: 'high',
+            categories: ['code-execution', 'network'],
+            summary: 'ブラウザでスクリプトを実行',
+            detail: String(args.script ?? ''),
+          };
+        }
+        return {
+          tool: tool.name,
+          riskLevel: args.action === 'navigate' ? 'medium' : tool.riskLevel,
+          categories: ['network'],
+          summary: `ブラウザ操作: ${args.action}`,
+          detail: JSON.stringify(args, null, 2),
+        };
+
+      default:
+        return {
+          tool: tool.name,
+          riskLevel: tool.riskLevel,
+          categories: tool.riskLevel === 'low' ? [] : ['file-write'],
+          summary: `ツール実行: ${tool.name}`,
+          detail: JSON.stringify(args, null, 2),
+        };
+    }
+  }
+
+  /**
+   * 評価結果に対してユーザーの承認が必要か判定する
+   */
+  requiresApproval(assessment: RiskAssessment): boolean {
+    if (this.threshold === 'never') return false;
+    if (this.alwaysAllowed.has(allowKey(assessment))) return false;
+    return RISK_ORDER.indexOf(assessment.riskLevel) >= RISK_ORDER.indexOf(this.threshold);
+  }
+
+  /**
+   * 同じツール・同じ分類（シェルコマンドは同じプログラム）の操作を以後は承認なしで許可する
+   */
+  allowAlways(assessment: RiskAssessment): void {
+    this.alwaysAllowed.add(allowKey(assessment));
+  }
+}
+
+/**
+ * シェルコマンドの危険度を評価する
+ * 任意のコードを実行できるため、分類ルールに当てはまらないコマンドも high とする
+ */
+function assessShellCommand(command: string): RiskAssessment {
+  const matched = SHELL_RULES.filter(rule => rule.pattern.test(command));
+  const riskLevel = matched.reduce<RiskLevel>(
+    (level, rule) => (RISK_ORDER.indexOf(rule.level) > RISK_ORDER.indexOf(level) ? rule.level : level),
+    'high',
+  );
+
+  return {
+    tool: 'shell',
+    riskLevel,
+    categories: ['code-execution', ...matched.map(rule => rule.category)],
+    summary: `シェルコマンドを実行${matched.length > 0 ? `（${matched.map(rule => rule.category).join(', ')}）` : ''}`,
+    detail: command,
+    scope: shellPrograms(command).join(','),
+  };
+}
+
+/**
+ * コマンドラインで実行されるプログラム名（; && | などで区切られた各コマンドの先頭）を取り出す
+ */
+function shellPrograms(command: string): string[] {
+  const programs = command
+    .split(/&&|\|\||[;&|\n]/)
+    .map(segment => segment.trim().split(/\s+/).find(word => !/^\w+=/.test(word)) ?? '')
+    .filter(Boolean)
+    .map(program => program.replace(/^["']|["']$/g, '').split(/[\\/]/).pop()!.toLowerCase());
+  return [...new Set(programs)].sort();
+}
+
+/**
+ * write_file の承認画面に表示する、既存ファイルとの差分を作成する
+ * ワークスペース外のパスなど読み込めない場合は書き込む内容をそのまま返す
+ */
+async function diffWrite(sessionId: string, filePath: string, content: string, append: boolean): Promise<string> {
+  let original = '';
+  try {
+    original = await fs.readFile(await resolveInWorkspace(sessionId, filePath), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') return content;
+  }
+
+  const name = path.posix.normalize(filePath.split(path.sep).join('/'));
+  return createTwoFilesPatch(name, name, original, append ? original + content : content);
+}
+
+/**
+ * 「常に許可」の判定に使うキー
+ */
+function allowKey(assessment: RiskAssessment): string {
+  const key = `${assessment.tool}:${[...assessment.categories].sort().join(',')}`;
+  return assessment.scope ? `${key}:${assessment.scope}` : key;
+}
@@ -0,0 +1,123 @@
+import { ToolCall, ToolDefinition } from '@/lib/llm/LLMTypes';
+import { getLogger } from '@/lib/logging/logger';
+import { Tool, ToolContext, ToolInvocation } from '@/lib/tools/ToolTypes';
+import { validateSchema } from '@/lib/tools/validateSchema';
+import { createTimeoutController } from '@/lib/utils/abort';
+
+/**
+ * エージェントが利用できるツールを管理するクラス
+ */
+export class ToolRegistry {
+  private tools = new Map<string, Tool>();
+
+  /**
+   * ツールを登録する
+   */
+  register(tool: Tool): this {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool "${tool.name}" is already registered`);
+    }
+    this.tools.set(tool.name, tool);
+    return this;
+  }
+
+  /**
+   * ツールを取得する
+   */
+  get(name: string): Tool | undefined {
+    return this.tools.get(name);
+  }
+
+  /**
+   * 登録済みのツール一覧を取得する
+   */
+  list(): Tool[] {
+    return [...this.tools.values()];
+  }
+
+  /**
+   * モデルに提示するツール定義を取得する
+   */
+  getDefinitions(): ToolDefinition[] {
+    return this.list().map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    }));
+  }
+
+  /**
+   * モデルが要求したツール呼び出しを検証して実行する
+   * 未知のツール・引数の検証エラー・承認の拒否・実行時エラー・制限時間の超過は例外にせず、失敗した呼び出しとして返す
+   * 制限時間は承認の後、ハンドラの実行だけに適用する
+   */
+  async invoke(call: ToolCall, context: ToolContext): Promise<ToolInvocation> {
+    const startedAt = Date.now();
+    const invocation: ToolInvocation = {
+      id: call.id,
+      tool: call.name,
+      input: call.arguments,
+      success: false,
+      output: null,
+      error: null,
+      startedAt,
+      durationMs: 0,
+    };
+
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      invocation.error = `Unknown tool "${call.name}". Available tools: ${[...this.tools.keys()].join(', ') || '(none)'}`;
+      return invocation;
+    }
+
+    const errors = validateSchema(call.arguments, tool.parameters);
+    if (errors.length > 0) {
+      invocation.error = `Invalid arguments for "${call.name}": ${errors.join('; ')}`;
+      return invocation;
+    }
+
+    const timeoutMs = tool.timeoutMs !== undefined ? tool.timeoutMs : context.timeoutMs ?? null;
+    let timeout: ReturnType<typeof createTimeoutController> | null = null;
+
+    try {
+      if (context.authorize) {
+        await withAbort(context.authorize(call, tool), context.signal);
+      }
+      timeout = createTimeoutController(context.signal, timeoutMs, `Tool "${call.name}" timed out after ${timeoutMs}ms`);
+      invocation.output = await withAbort(tool.handler(call.arguments, { ...context, signal: timeout.signal }), timeout.signal);
+      invocation.success = true;
+    } catch (error) {
+      getLogger({ sessionId: context.sessionId }).error(`Error in tool "${call.name}"`, error);
+      invocation.error = error instanceof Error ? error.message : String(error);
+    } finally {
+      timeout?.dispose();
+      invocation.durationMs = Date.now() - startedAt;
+    }
+
+    return invocation;
+  }
+}
+
+/**
+ * 中止シグナルを受けたら、ハンドラの完了を待たずに中止エラーで終える
+ * ハンドラ自身もシグナルを参照して後片付け（子プロセスの停止など）を行う
+ */
+function withAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason ?? new Error('Aborted'));
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason ?? new Error('Aborted'));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+    );
+  });
+}
@@ -0,0 +1,59 @@
+/**
+ * ツールの型定義ファイル
+ */
+
+import { ToolCall } from '@/lib/llm/LLMTypes';
+
+// ツールの危険度
+export type RiskLevel = 'low' | 'medium' | 'high' | 'critical';
+
+// ツールの逐次出力（シェルの標準出力など）
+export type ToolOutputChunk = {
+  stream: 'stdout' | 'stderr';
+  data: string;
+};
+
+// ツールによるファイル変更の記録
+export type FileChange = {
+  path: string; // ワークスペースからの相対パス
+  action: 'write' | 'append' | 'patch' | 'archive' | 'extract';
+  tool: string;
+  timestamp: number;
+};
+
+// ツール実行時に渡されるコンテキスト
+export type ToolContext = {
+  sessionId: string;
+  signal?: AbortSignal;
+  // ツールの既定の制限時間（ミリ秒）
+  timeoutMs?: number;
+  onOutput?: (chunk: ToolOutputChunk) => void;
+  onFileChange?: (change: FileChange) => void;
+  // 引数の検証後・実行前に呼ばれる承認フック（拒否する場合は例外を投げる）
+  authorize?: (call: ToolCall, tool: Tool) => Promise<void>;
+  // ユーザーに質問し、回答を待つ（エージェントループが提供する）
+  ask?: (question: { question: string; choices?: string[]; timeoutMs?: number; defaultAnswer?: string }) => Promise<string>;
+};
+
+// ツール定義
+export type Tool<TInput = any, TOutput = any> = {
+  name: string;
+  description: string;
+  parameters: Record<string, any>; // JSON Schema（type: 'object'）
+  riskLevel: RiskLevel;
+  // 1回の呼び出しの制限時間（省略時は ToolContext.timeoutMs、null なら制限なし）
+  timeoutMs?: number | null;
+  handler: (input: TInput, context: ToolContext) => Promise<TOutput>;
+};
+
+// ツール呼び出しの記録
+export type ToolInvocation = {
+  id: string;
+  tool: string;
+  input: Record<string, any>;
+  success: boolean;
+  output: any;
+  error: string | null;
+  startedAt: number;
+  durationMs: number;
+};
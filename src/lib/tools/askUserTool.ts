@@ -0,0 +1,39 @@
+import { Tool } from '@/lib/tools/ToolTypes';
+
+// ユーザーへの質問ツールの入力
+type AskUserInput = {
+  question: string;
+  choices?: string[];
+  timeoutMs?: number;
+  defaultAnswer?: string;
+};
+
+/**
+ * 不明点をユーザーに質問し、回答を受け取るまで待機するツール
+ */
+export const askUserTool: Tool<AskUserInput> = {
+  name: 'ask_user',
+  description: '指示に不明点がある場合にユーザーへ質問し、回答を受け取るまで待機する。choices を指定すると選択式になる',
+  riskLevel: 'low',
+  // 回答待ちの時間は制限しない（質問ごとの timeoutMs で既定の回答を採用できる）
+  timeoutMs: null,
+  parameters: {
+    type: 'object',
+    properties: {
+      question: { type: 'string', minLength: 1 },
+      choices: { type: 'array', items: { type: 'string', minLength: 1 } },
+      timeoutMs: { type: 'integer', minimum: 1000 },
+      defaultAnswer: { type: 'string' },
+    },
+    required: ['question'],
+    additionalProperties: false,
+  },
+  handler: async (input, context) => {
+    if (!context.ask) {
+      throw new Error('Asking the user is not available in this context');
+    }
+
+    const answer = await context.ask(input);
+    return { question: input.question, answer };
+  },
+};
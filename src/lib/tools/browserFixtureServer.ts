@@ -0,0 +1,69 @@
+import fs from 'fs/promises';
+import http from 'http';
+import { AddressInfo } from 'net';
+import path from 'path';
+
+/**
+ * ブラウザツール検証用のローカル静的サイトサーバー
+ * fixtures/browser-site 以下を配信し、ネットワークなしでブラウザ操作を確認できるようにする
+ */
+
+// 既定の配信ディレクトリ
+export const BROWSER_FIXTURE_ROOT = path.join(process.cwd(), 'fixtures', 'browser-site');
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.png': 'image/png',
+  '.svg': 'image/svg+xml',
+};
+
+// 起動したフィクスチャサーバー
+export type FixtureServer = {
+  url: string;
+  close: () => Promise<void>;
+};
+
+/**
+ * フィクスチャサーバーを起動する（port 省略時は空きポートを使用）
+ */
+export function startFixtureServer(root: string = BROWSER_FIXTURE_ROOT, port = 0): Promise<FixtureServer> {
+  const server = http.createServer(async (req, res) => {
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(new URL(req.url || '/', 'http://localhost').pathname);
+    } catch {
+      res.writeHead(400, { 'Content-Type': 'text/plain; charset=utf-8' }).end('Bad request');
+      return;
+    }
+    const target = path.join(root, pathname === '/' ? 'index.html' : pathname);
+
+    if (!target.startsWith(root + path.sep)) {
+      res.writeHead(403).end('Forbidden');
+      return;
+    }
+
+    try {
+      const body = await fs.readFile(target);
+      res.writeHead(200, {
+        'Content-Type': CONTENT_TYPES[path.extname(target)] ?? 'application/octet-stream',
+      });
+      res.end(body);
+    } catch {
+      res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' }).end('Not found');
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => {
+      const { port: actualPort } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${actualPort}`,
+        close: () => new Promise(done => server.close(() => done())),
+      });
+    });
+  });
+}
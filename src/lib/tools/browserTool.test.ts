@@ -0,0 +1,117 @@
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { chromium } from 'playwright-core';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { FixtureServer, startFixtureServer } from '@/lib/tools/browserFixtureServer';
+import { browserTool, closeBrowserSession } from '@/lib/tools/browserTool';
+import { ensureWorkspace } from '@/lib/tools/workspace';
+
+const context = { sessionId: 'browser-tool-test' };
+
+/**
+ * ブラウザツールが起動する Chromium があるか（なければブラウザを使うテストは省略する）
+ */
+function hasBrowser(): boolean {
+  try {
+    return fs.existsSync(process.env.BROWSER_EXECUTABLE_PATH || chromium.executablePath());
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * フィクスチャサーバーから生のパスで取得し、ステータスコードを返す
+ */
+function getStatus(url: string, rawPath: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    http.get(url + rawPath, (res) => {
+      res.resume();
+      resolve(res.statusCode ?? 0);
+    }).on('error', reject);
+  });
+}
+
+let server: FixtureServer;
+
+beforeAll(async () => {
+  server = await startFixtureServer();
+});
+
+afterAll(async () => {
+  await closeBrowserSession(context.sessionId);
+  await server.close();
+});
+
+describe('browser fixture server', () => {
+  it('serves the fixture pages', async () => {
+    expect(await getStatus(server.url, '/')).toBe(200);
+    expect(await getStatus(server.url, '/table.html')).toBe(200);
+    expect(await getStatus(server.url, '/missing.html')).toBe(404);
+  });
+
+  it('rejects malformed and escaping paths', async () => {
+    expect(await getStatus(server.url, '/%E0%A4%A')).toBe(400);
+    expect(await getStatus(server.url, '/..%2f..%2fpackage.json')).toBe(403);
+  });
+});
+
+describe.skipIf(!hasBrowser())('browser tool', () => {
+  it('navigates and returns a snapshot without boilerplate', async () => {
+    const result = await browserTool.handler({ action: 'navigate', url: `${server.url}/` }, context);
+    expect(result.status).toBe(200);
+    expect(result.snapshot.title).toBe('WinManus Fixture Home');
+    expect(result.snapshot.text).toContain('Fixture Home');
+    expect(result.snapshot.text).not.toContain('footer text');
+    expect(result.snapshot.links.map((link: { href: string }) => link.href)).toContain(`${server.url}/form.html`);
+  });
+
+  it('clicks an element', async () => {
+    await browserTool.handler({ action: 'navigate', url: `${server.url}/` }, context);
+    const result = await browserTool.handler({ action: 'click', selector: '#counter' }, context);
+    expect(result.snapshot.text).toContain('Clicked 1');
+  });
+
+  it('fills and submits a form', async () => {
+    await browserTool.handler({ action: 'navigate', url: `${server.url}/form.html` }, context);
+    await browserTool.handler({ action: 'type', selector: '#name', text: 'Alice' }, context);
+    const result = await browserTool.handler({ action: 'type', selector: '#message', text: 'Hello' }, context);
+    expect(result.snapshot.inputs.map((input: { selector: string }) => input.selector)).toEqual(['#name', '#message']);
+
+    await browserTool.handler({ action: 'click', selector: '#submit' }, context);
+    const submitted = await browserTool.handler({ action: 'extract_text' }, context);
+    expect(submitted.snapshot.text).toContain('Thanks, Alice: Hello');
+  });
+
+  it('extracts table text and evaluates scripts', async () => {
+    await browserTool.handler({ action: 'navigate', url: `${server.url}/table.html` }, context);
+    const result = await browserTool.handler({ action: 'evaluate', script: "document.querySelectorAll('#stocks tbody tr').length" }, context);
+    expect(result.value).toBe(3);
+    expect(result.snapshot.text).toContain('BBB');
+  });
+
+  it('saves screenshots into the workspace', async () => {
+    await browserTool.handler({ action: 'navigate', url: `${server.url}/` }, context);
+    const result = await browserTool.handler({ action: 'screenshot' }, context);
+    const workspace = await ensureWorkspace(context.sessionId);
+    expect(fs.existsSync(path.join(workspace, result.path))).toBe(true);
+  });
+
+  it('stops a running action when the signal is aborted', async () => {
+    const controller = new AbortController();
+    await browserTool.handler({ action: 'navigate', url: `${server.url}/` }, context);
+    setTimeout(() => controller.abort(new Error('cancelled')), 200);
+    await expect(browserTool.handler(
+      { action: 'evaluate', script: 'new Promise(() => {})' },
+      { ...context, signal: controller.signal },
+    )).rejects.toThrow('cancelled');
+
+    // 中止で閉じたページは次の操作で開き直す
+    const result = await browserTool.handler({ action: 'navigate', url: `${server.url}/table.html` }, context);
+    expect(result.snapshot.title).toBe('WinManus Fixture Table');
+  });
+
+  it('rejects non-http URLs', async () => {
+    await expect(browserTool.handler({ action: 'navigate', url: 'file:///etc/passwd' }, context)).rejects.toThrow(/protocol/);
+  });
+});
@@ -0,0 +1,288 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Browser, BrowserContext, Page, chromium } from 'playwright-core';
+import { getLogger } from '@/lib/logging/logger';
+import { Tool, ToolContext } from '@/lib/tools/ToolTypes';
+import { ensureWorkspace, resolveInWorkspace, toWorkspacePath } from '@/lib/tools/workspace';
+import { TimeoutError } from '@/lib/utils/abort';
+
+// スナップショットに含めるテキストの最大文字数
+const MAX_TEXT_LENGTH = 8000;
+// スナップショットに含めるリンク・入力欄の最大数
+const MAX_ELEMENTS = 50;
+// 操作のタイムアウト（ミリ秒）
+const ACTION_TIMEOUT = 30 * 1000;
+// 使われていないブラウザを閉じるまでの時間（ミリ秒）
+const IDLE_TIMEOUT = 10 * 60 * 1000;
+
+// ブラウザ操作の種類
+type BrowserAction = 'navigate' | 'click' | 'type' | 'extract_text' | 'screenshot' | 'evaluate';
+
+// ブラウザツールの入力
+type BrowserInput = {
+  action: BrowserAction;
+  url?: string;
+  selector?: string;
+  text?: string;
+  submit?: boolean;
+  script?: string;
+  fullPage?: boolean;
+};
+
+// 観察結果として返すページのスナップショット
+export type PageSnapshot = {
+  url: string;
+  title: string;
+  text: string;
+  truncated: boolean;
+  links: { text: string; href: string }[];
+  inputs: { name: string; type: string; selector: string }[];
+};
+
+// セッションごとのブラウザ
+type BrowserSession = {
+  browser: Browser;
+  context: BrowserContext;
+  page: Page;
+  idleTimer: NodeJS.Timeout | null;
+};
+
+const sessions = new Map<string, BrowserSession>();
+
+/**
+ * セッションのブラウザページを取得する（なければ起動する）
+ */
+async function getPage(sessionId: string): Promise<Page> {
+  let session = sessions.get(sessionId);
+
+  if (!session || !session.browser.isConnected()) {
+    const browser = await chromium.launch({
+      headless: true,
+      executablePath: process.env.BROWSER_EXECUTABLE_PATH || undefined,
+    });
+    const context = await browser.newContext({ acceptDownloads: false });
+    const page = await context.newPage();
+    page.setDefaultTimeout(ACTION_TIMEOUT);
+    session = { browser, context, page, idleTimer: null };
+    sessions.set(sessionId, session);
+  } else if (session.page.isClosed()) {
+    // 中止された操作で閉じたページは、同じコンテキスト（Cookie 等）で開き直す
+    session.page = await session.context.newPage();
+    session.page.setDefaultTimeout(ACTION_TIMEOUT);
+  }
+
+  // 一定時間操作がなければブラウザを閉じる
+  if (session.idleTimer) clearTimeout(session.idleTimer);
+  session.idleTimer = setTimeout(() => closeBrowserSession(sessionId), IDLE_TIMEOUT);
+
+  return session.page;
+}
+
+/**
+ * セッションのブラウザを閉じる
+ */
+export async function closeBrowserSession(sessionId: string): Promise<void> {
+  const session = sessions.get(sessionId);
+  if (!session) return;
+
+  sessions.delete(sessionId);
+  if (session.idleTimer) clearTimeout(session.idleTimer);
+  try {
+    await session.browser.close();
+  } catch (error) {
+    getLogger({ sessionId }).error('Error closing browser', error);
+  }
+}
+
+/**
+ * 制限時間付きで待つ（page.evaluate などタイムアウトを指定できない操作に使用する）
+ */
+function withTimeout<T>(promise: Promise<T>, message: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new TimeoutError(message)), ACTION_TIMEOUT);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * ページの読みやすいテキストと操作可能な要素を取り出す
+ */
+async function takeSnapshot(page: Page): Promise<PageSnapshot> {
+  const content = await withTimeout(page.evaluate((maxElements) => {
+    const root = document.body?.cloneNode(true) as HTMLElement | undefined;
+    root?.querySelectorAll('script, style, noscript, svg, nav, footer, [hidden], [aria-hidden="true"]')
+      .forEach(el => el.remove());
+
+    const links = Array.from(document.querySelectorAll('a[href]'))
+      .slice(0, maxElements)
+      .map(a => ({ text: (a.textContent || '').trim().slice(0, 100), href: (a as HTMLAnchorElement).href }));
+
+    const inputs = Array.from(document.querySelectorAll('input, textarea, select'))
+      .filter(el => (el as HTMLInputElement).type !== 'hidden')
+      .slice(0, maxElements)
+      .map(el => {
+        const input = el as HTMLInputElement;
+        const selector = input.id
+          ? `#${input.id}`
+          : input.name
+            ? `${input.tagName.toLowerCase()}[name="${input.name}"]`
+            : input.tagName.toLowerCase();
+        return { name: input.name || input.id || '', type: input.type || input.tagName.toLowerCase(), selector };
+      });
+
+    return {
+      text: (root?.innerText || root?.textContent || '').replace(/\n{3,}/g, '\n\n').trim(),
+      links,
+      inputs,
+    };
+  }, MAX_ELEMENTS), `Page snapshot timed out after ${ACTION_TIMEOUT}ms`);
+
+  return {
+    url: page.url(),
+    title: await withTimeout(page.title(), `Reading the page title timed out after ${ACTION_TIMEOUT}ms`),
+    text: content.text.slice(0, MAX_TEXT_LENGTH),
+    truncated: content.text.length > MAX_TEXT_LENGTH,
+    links: content.links,
+    inputs: content.inputs,
+  };
+}
+
+/**
+ * 操作対象の URL を検証する（http / https のみ許可）
+ */
+function validateUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Invalid URL: ${url}`);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error(`Unsupported URL protocol: ${parsed.protocol}`);
+  }
+  return parsed.toString();
+}
+
+/**
+ * 必須パラメータを取り出す
+ */
+function requireParam<K extends keyof BrowserInput>(input: BrowserInput, key: K): NonNullable<BrowserInput[K]> {
+  const value = input[key];
+  if (value === undefined || value === null || value === '') {
+    throw new Error(`"${key}" is required for action "${input.action}"`);
+  }
+  return value as NonNullable<BrowserInput[K]>;
+}
+
+/**
+ * スクリーンショットをワークスペースに保存する
+ */
+async function saveScreenshot(page: Page, input: BrowserInput, context: ToolContext) {
+  const workspace = await ensureWorkspace(context.sessionId);
+  const target = await resolveInWorkspace(context.sessionId, path.join('screenshots', `${Date.now()}.png`));
+  await fs.mkdir(path.dirname(target), { recursive: true });
+
+  if (input.selector) {
+    await page.locator(input.selector).first().screenshot({ path: target, timeout: ACTION_TIMEOUT });
+  } else {
+    await page.screenshot({ path: target, fullPage: !!input.fullPage, timeout: ACTION_TIMEOUT });
+  }
+
+  const relative = toWorkspacePath(workspace, target);
+  context.onFileChange?.({ path: relative, action: 'write', tool: 'browser', timestamp: Date.now() });
+  return relative;
+}
+
+/**
+ * ヘッドレス Chromium によるブラウザ操作ツール
+ */
+export const browserTool: Tool<BrowserInput> = {
+  name: 'browser',
+  description: 'ヘッドレスブラウザを操作する。action: navigate(url) / click(selector) / type(selector, text, submit) / extract_text / screenshot(selector?, fullPage?) / evaluate(script)。操作後のページのスナップショットを返す',
+  riskLevel: 'medium',
+  parameters: {
+    type: 'object',
+    properties: {
+      action: { type: 'string', enum: ['navigate', 'click', 'type', 'extract_text', 'screenshot', 'evaluate'] },
+      url: { type: 'string' },
+      selector: { type: 'string' },
+      text: { type: 'string' },
+      submit: { type: 'boolean' },
+      script: { type: 'string' },
+      fullPage: { type: 'boolean' },
+    },
+    required: ['action'],
+    additionalProperties: false,
+  },
+  handler: async (input, context) => {
+    context.signal?.throwIfAborted();
+    const page = await getPage(context.sessionId);
+
+    // 中止・制限時間の超過ではページを閉じ、実行中の Playwright の操作を打ち切る
+    const onAbort = () => {
+      page.close().catch(() => {});
+    };
+    context.signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      return await runAction(page, input, context);
+    } catch (error) {
+      // ページを閉じたことによる二次的なエラーより中止の理由を伝える
+      if (context.signal?.aborted) throw context.signal.reason ?? error;
+      // 制限時間を超えたスクリプトがページ上で動き続けないよう閉じる（次の操作で開き直す）
+      if (error instanceof TimeoutError) await page.close().catch(() => {});
+      throw error;
+    } finally {
+      context.signal?.removeEventListener('abort', onAbort);
+    }
+  },
+};
+
+/**
+ * ブラウザ操作を実行し、結果を返す
+ */
+async function runAction(page: Page, input: BrowserInput, context: ToolContext) {
+  switch (input.action) {
+    case 'navigate': {
+      const url = validateUrl(requireParam(input, 'url'));
+      const response = await page.goto(url, { waitUntil: 'domcontentloaded', timeout: ACTION_TIMEOUT });
+      return { status: response?.status() ?? null, snapshot: await takeSnapshot(page) };
+    }
+
+    case 'click': {
+      await page.locator(requireParam(input, 'selector')).first().click({ timeout: ACTION_TIMEOUT });
+      await page.waitForLoadState('domcontentloaded', { timeout: ACTION_TIMEOUT });
+      return { snapshot: await takeSnapshot(page) };
+    }
+
+    case 'type': {
+      const locator = page.locator(requireParam(input, 'selector')).first();
+      await locator.fill(requireParam(input, 'text'), { timeout: ACTION_TIMEOUT });
+      if (input.submit) {
+        await locator.press('Enter', { timeout: ACTION_TIMEOUT });
+        await page.waitForLoadState('domcontentloaded', { timeout: ACTION_TIMEOUT });
+      }
+      return { snapshot: await takeSnapshot(page) };
+    }
+
+    case 'extract_text':
+      return { snapshot: await takeSnapshot(page) };
+
+    case 'screenshot':
+      return { path: await saveScreenshot(page, input, context), url: page.url() };
+
+    case 'evaluate': {
+      const script = requireParam(input, 'script');
+      // 式・文のどちらでも受け付けられるよう関数本体として評価する
+      const value = await withTimeout(page.evaluate((source) => {
+        const fn = new Function(`return (async () => { ${source.includes('return') ? source : `return (${source})`} })();`);
+        return fn();
+      }, script), `Script evaluation timed out after ${ACTION_TIMEOUT}ms`);
+      return { value: JSON.parse(JSON.stringify(value ?? null)), snapshot: await takeSnapshot(page) };
+    }
+
+    default:
+      throw new Error(`Unknown browser action: ${input.action}`);
+  }
+}
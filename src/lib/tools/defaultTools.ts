@@ -0,0 +1,20 @@
+import { ToolRegistry } from '@/lib/tools/ToolRegistry';
+import { askUserTool } from '@/lib/tools/askUserTool';
+import { browserTool } from '@/lib/tools/browserTool';
+import { fileTools } from '@/lib/tools/fileTools';
+import { createShellTool } from '@/lib/tools/shellTool';
+
+/**
+ * エージェントに標準で提供するツールを登録したレジストリを生成する
+ */
+export function createDefaultToolRegistry(): ToolRegistry {
+  const registry = new ToolRegistry();
+  registry.register(createShellTool());
+  registry.register(browserTool);
+  registry.register(askUserTool);
+  for (const tool of fileTools) {
+    registry.register(tool);
+  }
+
+  return registry;
+}
@@ -0,0 +1,77 @@
+import AdmZip from 'adm-zip';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import * as tar from 'tar';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createArchiveTool, extractArchiveTool, listFilesTool, writeFileTool } from '@/lib/tools/fileTools';
+import { ensureWorkspace } from '@/lib/tools/workspace';
+
+const context = { sessionId: 'file-tools-test' };
+let workspace: string;
+let outside: string;
+
+beforeAll(async () => {
+  workspace = await ensureWorkspace(context.sessionId);
+  outside = await fs.mkdtemp(path.join(os.tmpdir(), 'winmanus-outside-'));
+  await fs.writeFile(path.join(outside, 'secret.txt'), 'secret');
+  // シェルで ln -s した場合と同じく、ワークスペースの外を指すリンクを置く
+  await fs.symlink(outside, path.join(workspace, 'link'));
+});
+
+afterAll(async () => {
+  await fs.rm(outside, { recursive: true, force: true });
+});
+
+describe.skipIf(process.platform === 'win32')('file tools and symbolic links', () => {
+  it('rejects writes through a link to outside the workspace', async () => {
+    await expect(writeFileTool.handler({ path: 'link/new.txt', content: 'x' }, context)).rejects.toThrow(/escapes/);
+  });
+
+  it('does not list files through a link to outside the workspace', async () => {
+    await expect(listFilesTool.handler({ pattern: '../*' }, context)).rejects.toThrow();
+    const result = await listFilesTool.handler({ pattern: 'link/*' }, context);
+    expect(JSON.stringify(result)).not.toContain('secret.txt');
+  });
+
+  it('rejects zip entries that would be written through a link', async () => {
+    const zip = new AdmZip();
+    zip.addFile('link/pwn.txt', Buffer.from('pwned'));
+    zip.addFile('ok.txt', Buffer.from('ok'));
+    await zip.writeZipPromise(path.join(workspace, 'slip.zip'));
+
+    await expect(extractArchiveTool.handler({ archive: 'slip.zip' }, context)).rejects.toThrow(/escapes/);
+    await expect(fs.access(path.join(outside, 'pwn.txt'))).rejects.toThrow();
+  });
+
+  it('rejects tar entries that would be written through a link', async () => {
+    const source = await fs.mkdtemp(path.join(os.tmpdir(), 'winmanus-tar-'));
+    await fs.mkdir(path.join(source, 'link'));
+    await fs.writeFile(path.join(source, 'link', 'pwn.txt'), 'pwned');
+    await tar.c({ file: path.join(workspace, 'slip.tar'), cwd: source }, ['link/pwn.txt']);
+    await fs.rm(source, { recursive: true, force: true });
+
+    await expect(extractArchiveTool.handler({ archive: 'slip.tar' }, context)).rejects.toThrow(/escapes/);
+    await expect(fs.access(path.join(outside, 'pwn.txt'))).rejects.toThrow();
+  });
+
+  it('extracts a zip archive inside the workspace', async () => {
+    const zip = new AdmZip();
+    zip.addFile('docs/readme.txt', Buffer.from('hello'));
+    await zip.writeZipPromise(path.join(workspace, 'docs.zip'));
+
+    const result = await extractArchiveTool.handler({ archive: 'docs.zip', destination: 'out' }, context);
+    expect(result.files).toEqual(['out/docs/readme.txt']);
+    expect(await fs.readFile(path.join(workspace, 'out/docs/readme.txt'), 'utf8')).toBe('hello');
+  });
+
+  it('does not follow links when creating a zip archive', async () => {
+    await fs.mkdir(path.join(workspace, 'bundle'), { recursive: true });
+    await fs.writeFile(path.join(workspace, 'bundle', 'a.txt'), 'a');
+    await fs.symlink(outside, path.join(workspace, 'bundle', 'outside'));
+
+    await createArchiveTool.handler({ output: 'bundle.zip', paths: ['bundle'] }, context);
+    const names = new AdmZip(path.join(workspace, 'bundle.zip')).getEntries().map(entry => entry.entryName);
+    expect(names).toEqual(['bundle/a.txt']);
+  });
+});
@@ -0,0 +1,409 @@
+import AdmZip from 'adm-zip';
+import { applyPatch } from 'diff';
+import fg from 'fast-glob';
+import fs from 'fs/promises';
+import path from 'path';
+import * as tar from 'tar';
+import { FileChange, Tool, ToolContext } from '@/lib/tools/ToolTypes';
+import { checkGlobPattern, ensureWorkspace, resolveInWorkspace, toWorkspacePath } from '@/lib/tools/workspace';
+
+// 一覧・検索結果の最大件数
+const MAX_LIST_ENTRIES = 500;
+const MAX_SEARCH_MATCHES = 200;
+// 読み込み・検索対象とするファイルの最大サイズ
+const MAX_READ_BYTES = 1024 * 1024;
+
+/**
+ * ファイル変更をコンテキストに通知する
+ */
+function recordChange(context: ToolContext, tool: string, action: FileChange['action'], filePath: string) {
+  context.onFileChange?.({ path: filePath, action, tool, timestamp: Date.now() });
+}
+
+/**
+ * glob の一致をワークスペース内に解決し、外部を指すもの（リンク経由を含む）を除く
+ */
+async function confineToWorkspace<T extends { path: string }>(sessionId: string, workspace: string, entries: T[]): Promise<(T & { resolved: string })[]> {
+  const confined: (T & { resolved: string })[] = [];
+  for (const entry of entries) {
+    try {
+      const resolved = await resolveInWorkspace(sessionId, entry.path);
+      confined.push({ ...entry, path: toWorkspacePath(workspace, resolved), resolved });
+    } catch {
+      // ワークスペースの外を指すファイルは一覧・検索の対象にしない
+    }
+  }
+  return confined;
+}
+
+/**
+ * ディレクトリ以下のファイルを再帰的に列挙する
+ * シンボリックリンクはワークスペースの外を指すことがあるため辿らず、含めない
+ */
+async function collectFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await collectFiles(fullPath));
+    } else if (entry.isFile()) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * ファイルを行範囲指定で読み込むツール
+ */
+export const readFileTool: Tool<{ path: string; startLine?: number; endLine?: number }> = {
+  name: 'read_file',
+  description: 'ワークスペース内のテキストファイルを読み込む。startLine / endLine（1始まり・両端含む）で行範囲を指定できる',
+  riskLevel: 'low',
+  parameters: {
+    type: 'object',
+    properties: {
+      path: { type: 'string', minLength: 1 },
+      startLine: { type: 'integer', minimum: 1 },
+      endLine: { type: 'integer', minimum: 1 },
+    },
+    required: ['path'],
+    additionalProperties: false,
+  },
+  handler: async (input, context) => {
+    const target = await resolveInWorkspace(context.sessionId, input.path);
+    const stat = await fs.stat(target);
+    if (stat.size > MAX_READ_BYTES && input.startLine === undefined) {
+      throw new Error(`File is too large (${stat.size} bytes); specify startLine / endLine`);
+    }
+
+    const lines = (await fs.readFile(target, 'utf8')).split(/\r?\n/);
+    const startLine = input.startLine ?? 1;
+    const endLine = Math.min(input.endLine ?? lines.length, lines.length);
+
+    return {
+      path: input.path,
+      startLine,
+      endLine,
+      totalLines: lines.length,
+      content: lines.slice(startLine - 1, endLine).join('\n'),
+    };
+  },
+};
+
+/**
+ * ファイルを書き込むツール
+ */
+export const writeFileTool: Tool<{ path: string; content: string; append?: boolean }> = {
+  name: 'write_file',
+  description: 'ワークスペース内のファイルに書き込む（親ディレクトリは自動作成）。append を true にすると追記する',
+  riskLevel: 'medium',
+  parameters: {
+    type: 'object',
+    properties: {
+      path: { type: 'string', minLength: 1 },
+      content: { type: 'string' },
+      append: { type: 'boolean' },
+    },
+    required: ['path', 'content'],
+    additionalProperties: false,
+  },
+  handler: async (input, context) => {
+    const workspace = await ensureWorkspace(context.sessionId);
+    const target = await resolveInWorkspace(context.sessionId, input.path);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+
+    if (input.append) {
+      await fs.appendFile(target, input.content, 'utf8');
+    } else {
+      await fs.writeFile(target, input.content, 'utf8');
+    }
+
+    // 表記の異なる同じファイル（./a.txt と a.txt など）を1つにまとめるため解決後のパスで記録する
+    recordChange(context, 'write_file', input.append ? 'append' : 'write', toWorkspacePath(workspace, target));
+    return { path: input.path, bytes: Buffer.byteLength(input.content), appended: !!input.append };
+  },
+};
+
+/**
+ * unified diff 形式のパッチを適用するツール
+ */
+export const patchFileTool: Tool<{ path: string; patch: string }> = {
+  name: 'patch_file',
+  description: 'ワークスペース内のファイルに unified diff 形式のパッチを適用する。存在しないファイルは空ファイルとして扱う',
+  riskLevel: 'medium',
+  parameters: {
+    type: 'object',
+    properties: {
+      path: { type: 'string', minLength: 1 },
+      patch: { type: 'string', minLength: 1 },
+    },
+    required: ['path', 'patch'],
+    additionalProperties: false,
+  },
+  handler: async (input, context) => {
+    const workspace = await ensureWorkspace(context.sessionId);
+    const target = await resolveInWorkspace(context.sessionId, input.path);
+
+    let original = '';
+    try {
+      original = await fs.readFile(target, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    const patched = applyPatch(original, input.patch);
+    if (patched === false) {
+      throw new Error('Patch does not apply cleanly; re-read the file and regenerate the diff');
+    }
+
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, patched, 'utf8');
+
+    recordChange(context, 'patch_file', 'patch', toWorkspacePath(workspace, target));
+    return { path: input.path, bytes: Buffer.byteLength(patched) };
+  },
+};
+
+/**
+ * glob パターンでファイルを一覧するツール
+ */
+export const listFilesTool: Tool<{ pattern?: string; cwd?: string }> = {
+  name: 'list_files',
+  description: 'ワークスペース内のファイルを glob パターン（既定は **/*）で一覧する',
+  riskLevel: 'low',
+  parameters: {
+    type: 'object',
+    properties: {
+      pattern: { type: 'string' },
+      cwd: { type: 'string' },
+    },
+    additionalProperties: false,
+  },
+  handler: async (input, context) => {
+    const workspace = await ensureWorkspace(context.sessionId);
+    const cwd = await resolveInWorkspace(context.sessionId, input.cwd ?? '.');
+    const pattern = input.pattern || '**/*';
+    checkGlobPattern(pattern);
+
+    const entries = await fg(pattern, {
+      cwd,
+      dot: false,
+      onlyFiles: true,
+      stats: true,
+      followSymbolicLinks: false,
+    });
+    const files = await confineToWorkspace(context.sessionId, workspace, entries.map(entry => ({
+      path: toWorkspacePath(workspace, path.join(cwd, entry.path)),
+      size: entry.stats?.size ?? 0,
+    })));
+
+    return {
+      files: files.slice(0, MAX_LIST_ENTRIES).map(file => ({ path: file.path, size: file.size })),
+      total: files.length,
+      truncated: files.length > MAX_LIST_ENTRIES,
+    };
+  },
+};
+
+/**
+ * ファイル内容を正規表現で検索するツール
+ */
+export const searchFilesTool: Tool<{ pattern: string; glob?: string; ignoreCase?: boolean }> = {
+  name: 'search_files',
+  description: 'ワークスペース内のファイル内容を正規表現で検索し、一致した行を返す',
+  riskLevel: 'low',
+  parameters: {
+    type: 'object',
+    properties: {
+      pattern: { type: 'string', minLength: 1 },
+      glob: { type: 'string' },
+      ignoreCase: { type: 'boolean' },
+    },
+    required: ['pattern'],
+    additionalProperties: false,
+  },
+  handler: async (input, context) => {
+    const workspace = await ensureWorkspace(context.sessionId);
+    const regex = new RegExp(input.pattern, input.ignoreCase ? 'i' : '');
+    const glob = input.glob || '**/*';
+    checkGlobPattern(glob);
+    const entries = await fg(glob, {
+      cwd: workspace,
+      onlyFiles: true,
+      stats: true,
+      followSymbolicLinks: false,
+    });
+    const files = await confineToWorkspace(context.sessionId, workspace, entries.map(entry => ({
+      path: toWorkspacePath(workspace, path.join(workspace, entry.path)),
+      size: entry.stats?.size ?? 0,
+    })));
+
+    const matches: { path: string; line: number; text: string }[] = [];
+    for (const file of files) {
+      if (file.size > MAX_READ_BYTES) continue;
+
+      const content = await fs.readFile(file.resolved, 'utf8');
+      const lines = content.split(/\r?\n/);
+      for (let i = 0; i < lines.length; i++) {
+        if (regex.test(lines[i])) {
+          matches.push({ path: file.path, line: i + 1, text: lines[i].slice(0, 500) });
+          if (matches.length >= MAX_SEARCH_MATCHES) {
+            return { matches, truncated: true };
+          }
+        }
+      }
+    }
+
+    return { matches, truncated: false };
+  },
+};
+
+/**
+ * zip / tar アーカイブを作成するツール
+ */
+export const createArchiveTool: Tool<{ output: string; paths: string[]; format?: 'zip' | 'tar' | 'tar.gz' }> = {
+  name: 'create_archive',
+  description: 'ワークスペース内のファイル・ディレクトリから zip / tar / tar.gz アーカイブを作成する',
+  riskLevel: 'medium',
+  parameters: {
+    type: 'object',
+    properties: {
+      output: { type: 'string', minLength: 1 },
+      paths: { type: 'array', items: { type: 'string', minLength: 1 } },
+      format: { type: 'string', enum: ['zip', 'tar', 'tar.gz'] },
+    },
+    required: ['output', 'paths'],
+    additionalProperties: false,
+  },
+  handler: async (input, context) => {
+    const workspace = await ensureWorkspace(context.sessionId);
+    const output = await resolveInWorkspace(context.sessionId, input.output);
+    const sources = await Promise.all(input.paths.map(p => resolveInWorkspace(context.sessionId, p)));
+    const format = input.format ?? (input.output.endsWith('.zip') ? 'zip' : input.output.endsWith('.tar') ? 'tar' : 'tar.gz');
+
+    await fs.mkdir(path.dirname(output), { recursive: true });
+
+    if (format === 'zip') {
+      const zip = new AdmZip();
+      for (const source of sources) {
+        const stat = await fs.stat(source);
+        for (const file of stat.isDirectory() ? await collectFiles(source) : [source]) {
+          // 作成中のアーカイブ自身は含めない
+          if (file === output) continue;
+          zip.addFile(toWorkspacePath(workspace, file), await fs.readFile(file));
+        }
+      }
+      await zip.writeZipPromise(output);
+    } else {
+      await tar.c(
+        { file: output, cwd: workspace, gzip: format === 'tar.gz', portable: true },
+        sources.map(source => toWorkspacePath(workspace, source)),
+      );
+    }
+
+    recordChange(context, 'create_archive', 'archive', toWorkspacePath(workspace, output));
+    const stat = await fs.stat(output);
+    return { path: input.output, format, bytes: stat.size };
+  },
+};
+
+/**
+ * zip / tar アーカイブを展開するツール
+ */
+export const extractArchiveTool: Tool<{ archive: string; destination?: string }> = {
+  name: 'extract_archive',
+  description: 'ワークスペース内の zip / tar / tar.gz アーカイブを展開する（ワークスペース外へのエントリは拒否）',
+  riskLevel: 'medium',
+  parameters: {
+    type: 'object',
+    properties: {
+      archive: { type: 'string', minLength: 1 },
+      destination: { type: 'string' },
+    },
+    required: ['archive'],
+    additionalProperties: false,
+  },
+  handler: async (input, context) => {
+    const workspace = await ensureWorkspace(context.sessionId);
+    const archive = await resolveInWorkspace(context.sessionId, input.archive);
+    const destination = await resolveInWorkspace(context.sessionId, input.destination ?? '.');
+    await fs.mkdir(destination, { recursive: true });
+
+    const extracted: string[] = [];
+
+    if (archive.endsWith('.zip')) {
+      const zip = new AdmZip(archive);
+      const entries = zip.getEntries();
+      // zip slip 対策：展開先の外を指すエントリは、何も書き込まないうちに拒否する
+      for (const entry of entries) {
+        await resolveEntry(context.sessionId, workspace, destination, entry.entryName);
+      }
+      // 書き込みの直前にも、ワークスペース内のシンボリックリンクを経由して外部を指していないか確認する
+      for (const entry of entries) {
+        const target = await resolveEntry(context.sessionId, workspace, destination, entry.entryName);
+        if (entry.isDirectory) {
+          await fs.mkdir(target, { recursive: true });
+        } else {
+          await fs.mkdir(path.dirname(target), { recursive: true });
+          await fs.writeFile(target, entry.getData());
+          extracted.push(toWorkspacePath(workspace, target));
+        }
+      }
+    } else {
+      // node-tar は既定で絶対パスや .. を含むエントリを無害化する
+      // 加えて、ワークスペース内のシンボリックリンクを経由して外部を指すエントリを事前に拒否し、リンクは展開しない
+      const entries: string[] = [];
+      await tar.t({ file: archive, onentry: (entry) => { entries.push(entry.path); } });
+      for (const entry of entries) {
+        await resolveEntry(context.sessionId, workspace, destination, entry);
+      }
+
+      await tar.x({
+        file: archive,
+        cwd: destination,
+        strict: true,
+        filter: (_, entry) => !('type' in entry) || (entry.type !== 'SymbolicLink' && entry.type !== 'Link'),
+        onentry: (entry) => {
+          if (entry.type === 'File') {
+            extracted.push(toWorkspacePath(workspace, path.resolve(destination, entry.path)));
+          }
+        },
+      });
+    }
+
+    for (const file of extracted) {
+      recordChange(context, 'extract_archive', 'extract', file);
+    }
+
+    return {
+      destination: toWorkspacePath(workspace, destination),
+      files: extracted.slice(0, MAX_LIST_ENTRIES),
+      total: extracted.length,
+    };
+  },
+};
+
+/**
+ * アーカイブのエントリの展開先を解決する（展開先・ワークスペースの外を指す場合は例外）
+ */
+async function resolveEntry(sessionId: string, workspace: string, destination: string, entryName: string): Promise<string> {
+  const target = path.resolve(destination, entryName);
+  if (!target.startsWith(destination + path.sep)) {
+    throw new Error(`Archive entry escapes the destination: ${entryName}`);
+  }
+  return resolveInWorkspace(sessionId, toWorkspacePath(workspace, target));
+}
+
+/**
+ * ファイル操作ツールの一覧
+ */
+export const fileTools: Tool[] = [
+  readFileTool,
+  writeFileTool,
+  patchFileTool,
+  listFilesTool,
+  searchFilesTool,
+  createArchiveTool,
+  extractArchiveTool,
+];
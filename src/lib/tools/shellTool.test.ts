@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { FileChange } from '@/lib/tools/ToolTypes';
+import { createShellTool } from '@/lib/tools/shellTool';
+
+const shell = createShellTool();
+const context = { sessionId: 'shell-test' };
+
+describe.skipIf(process.platform === 'win32')('shell tool', () => {
+  it('returns the exit code and output of a command', async () => {
+    const result = await shell.handler({ command: 'echo hello; exit 3' }, context);
+    expect(result).toMatchObject({ exitCode: 3, stdout: 'hello\n', timedOut: false });
+  });
+
+  it('reports the files that a command creates or changes', async () => {
+    await shell.handler({ command: 'echo old > unchanged.txt && echo old > changed.txt' }, context);
+    const changes: FileChange[] = [];
+    await shell.handler(
+      { command: 'mkdir -p out && echo report > out/report.md && echo new >> changed.txt' },
+      { ...context, onFileChange: change => changes.push(change) },
+    );
+    expect(changes.map(change => change.path).sort()).toEqual(['changed.txt', 'out/report.md']);
+    expect(changes.every(change => change.tool === 'shell')).toBe(true);
+  });
+
+  it('stops background processes that keep the output open when the command times out', async () => {
+    const startedAt = Date.now();
+    const result = await shell.handler({ command: 'sleep 7 & echo started', timeoutMs: 1000 }, context);
+    expect(result.stdout).toBe('started\n');
+    expect(result.timedOut).toBe(true);
+    expect(Date.now() - startedAt).toBeLessThan(4000);
+  });
+
+  it('stops background processes when the signal is aborted', async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(new Error('cancelled')), 500);
+    const startedAt = Date.now();
+    await shell.handler({ command: 'sleep 7 & echo started' }, { ...context, signal: controller.signal });
+    expect(Date.now() - startedAt).toBeLessThan(4000);
+  });
+
+  it('does not start a command when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort(new Error('cancelled'));
+    await expect(shell.handler({ command: 'touch started.txt' }, { ...context, signal: controller.signal }))
+      .rejects.toThrow('cancelled');
+  });
+});
@@ -0,0 +1,257 @@
+import { spawn } from 'child_process';
+import fs from 'fs/promises';
+import path from 'path';
+import { Tool, ToolOutputChunk } from '@/lib/tools/ToolTypes';
+import { findChangedFiles, resolveInWorkspace, snapshotWorkspace } from '@/lib/tools/workspace';
+
+// シェルコマンドの実行ポリシー
+export type ShellPolicy = {
+  allow: string[];      // 空でなければ、先頭のコマンド名がこの一覧にあるものだけを許可する
+  deny: RegExp[];       // コマンド全体に一致したら拒否する
+  timeoutMs: number;    // 既定のタイムアウト
+  maxTimeoutMs: number; // モデルが指定できるタイムアウトの上限
+  cpuSeconds: number;   // CPU時間の上限（ulimit -t）
+  memoryMb: number;     // 仮想メモリの上限（ulimit -v）
+  maxOutputBytes: number; // stdout / stderr それぞれの保持上限
+  passEnv: string[];    // 子プロセスに引き継ぐ環境変数
+};
+
+// シェルツールの入力
+type ShellInput = {
+  command: string;
+  cwd?: string;
+  timeoutMs?: number;
+};
+
+// シェルツールの出力
+export type ShellResult = {
+  exitCode: number | null;
+  signal: string | null;
+  stdout: string;
+  stderr: string;
+  truncated: boolean;
+  timedOut: boolean;
+  durationMs: number;
+};
+
+/**
+ * 既定の拒否パターン（システム破壊・権限昇格・外部スクリプトの直接実行など）
+ */
+export const DEFAULT_SHELL_DENYLIST: RegExp[] = [
+  /\brm\s+(-[a-z]*\s+)*-[a-z]*r[a-z]*\s+(-[a-z]*\s+)*(\/|~|\$HOME)(\s|$)/i,
+  /\b(sudo|su|doas)\b/,
+  /\b(mkfs(\.\w+)?|fdisk|parted|format)\b/,
+  /\b(shutdown|reboot|halt|poweroff)\b/,
+  /\bdd\b.*\bof=\/dev\//,
+  /:\(\)\s*\{\s*:\|:&\s*\};:/,
+  /\b(curl|wget)\b[^|]*\|\s*(ba|z)?sh\b/,
+  /\bchmod\s+(-R\s+)?[0-7]*777\s+\//,
+];
+
+/**
+ * 既定のシェルポリシー
+ */
+export const DEFAULT_SHELL_POLICY: ShellPolicy = {
+  allow: (process.env.AGENT_SHELL_ALLOW || '').split(',').map(cmd => cmd.trim()).filter(Boolean),
+  deny: DEFAULT_SHELL_DENYLIST,
+  timeoutMs: 60 * 1000,
+  maxTimeoutMs: 10 * 60 * 1000,
+  cpuSeconds: 120,
+  memoryMb: 2048,
+  maxOutputBytes: 64 * 1024,
+  passEnv: ['PATH', 'LANG', 'LC_ALL', 'TERM', 'SYSTEMROOT', 'COMSPEC', 'PATHEXT'],
+};
+
+/**
+ * コマンドがポリシーに違反していれば理由を返す
+ */
+export function checkShellPolicy(command: string, policy: ShellPolicy): string | null {
+  const denied = policy.deny.find(pattern => pattern.test(command));
+  if (denied) {
+    return `Command is blocked by the shell denylist (${denied})`;
+  }
+
+  if (policy.allow.length > 0) {
+    // パイプや && で連結された各コマンドの先頭を検査する
+    const programs = command
+      .split(/&&|\|\||[|;\n]/)
+      .map(part => part.trim().split(/\s+/)[0])
+      .filter(Boolean);
+    const disallowed = programs.find(program => !policy.allow.includes(path.basename(program)));
+    if (disallowed) {
+      return `Command "${disallowed}" is not in the shell allowlist`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * サンドボックス化されたシェルコマンド実行ツールを生成する
+ */
+export function createShellTool(policy: ShellPolicy = DEFAULT_SHELL_POLICY): Tool<ShellInput, ShellResult> {
+  return {
+    name: 'shell',
+    description: 'セッションのワークスペース内でシェルコマンドを実行し、終了コード・標準出力・標準エラーを返す',
+    riskLevel: 'high',
+    parameters: {
+      type: 'object',
+      properties: {
+        command: { type: 'string', minLength: 1, description: '実行するコマンド' },
+        cwd: { type: 'string', description: 'ワークスペースからの相対パスの作業ディレクトリ' },
+        timeoutMs: { type: 'integer', minimum: 1000, maximum: policy.maxTimeoutMs, description: 'タイムアウト（ミリ秒）' },
+      },
+      required: ['command'],
+      additionalProperties: false,
+    },
+    handler: async (input, context) => {
+      const violation = checkShellPolicy(input.command, policy);
+      if (violation) {
+        throw new Error(violation);
+      }
+
+      const workspace = await resolveInWorkspace(context.sessionId);
+      const cwd = await resolveInWorkspace(context.sessionId, input.cwd ?? '.');
+      const tmpDir = path.join(workspace, '.tmp');
+      await fs.mkdir(tmpDir, { recursive: true });
+
+      // コマンドは変更したファイルを報告しないため、実行前後のワークスペースを比べて成果物の候補として記録する
+      const before = context.onFileChange ? await snapshotWorkspace(workspace).catch(() => null) : null;
+      try {
+        return await runCommand(input.command, {
+          cwd,
+          env: buildEnv(policy, workspace, tmpDir),
+          timeoutMs: Math.min(input.timeoutMs ?? policy.timeoutMs, policy.maxTimeoutMs),
+          policy,
+          signal: context.signal,
+          onOutput: context.onOutput,
+        });
+      } finally {
+        if (before) {
+          const after = await snapshotWorkspace(workspace).catch(() => before);
+          for (const file of findChangedFiles(before, after)) {
+            context.onFileChange?.({ path: file, action: 'write', tool: 'shell', timestamp: Date.now() });
+          }
+        }
+      }
+    },
+  };
+}
+
+/**
+ * 子プロセス用の環境変数を構築する
+ * APIキーなどの秘密情報が漏れないよう、許可した変数のみを引き継ぐ
+ */
+function buildEnv(policy: ShellPolicy, workspace: string, tmpDir: string): NodeJS.ProcessEnv {
+  const env = {} as NodeJS.ProcessEnv;
+  for (const key of policy.passEnv) {
+    if (process.env[key] !== undefined) env[key] = process.env[key];
+  }
+  env.HOME = workspace;
+  env.USERPROFILE = workspace;
+  env.TMPDIR = tmpDir;
+  env.TEMP = tmpDir;
+  env.TMP = tmpDir;
+  return env;
+}
+
+/**
+ * コマンドを実行して結果を収集する
+ */
+function runCommand(
+  command: string,
+  options: {
+    cwd: string;
+    env: NodeJS.ProcessEnv;
+    timeoutMs: number;
+    policy: ShellPolicy;
+    signal?: AbortSignal;
+    onOutput?: (chunk: ToolOutputChunk) => void;
+  },
+): Promise<ShellResult> {
+  const { policy } = options;
+  const isWindows = process.platform === 'win32';
+  // 既に中止されている場合は起動しない（abort イベントは二度と発生しないため）
+  options.signal?.throwIfAborted();
+
+  // POSIX では ulimit で CPU 時間と仮想メモリを制限する
+  const script = isWindows
+    ? command
+    : `ulimit -t ${policy.cpuSeconds} 2>/dev/null; ulimit -v ${policy.memoryMb * 1024} 2>/dev/null; ${command}`;
+
+  return new Promise((resolve, reject) => {
+    const startedAt = Date.now();
+    const child = spawn(script, {
+      cwd: options.cwd,
+      env: options.env,
+      shell: isWindows ? true : '/bin/sh',
+      detached: !isWindows, // プロセスグループごと停止できるようにする
+      windowsHide: true,
+    });
+
+    const output = { stdout: '', stderr: '' };
+    let truncated = false;
+    let timedOut = false;
+
+    // シェルが終了していても、バックグラウンドの子プロセスが出力を開いたままにしていることがあるため
+    // 常にプロセスグループ（Windows ではプロセスツリー）ごと停止する
+    const kill = () => {
+      if (child.pid === undefined) return;
+      try {
+        if (isWindows) {
+          spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { windowsHide: true }).on('error', () => child.kill());
+        } else {
+          process.kill(-child.pid, 'SIGKILL');
+        }
+      } catch {
+        // 既に終了している
+      }
+    };
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      kill();
+    }, options.timeoutMs);
+
+    const onAbort = () => kill();
+    options.signal?.addEventListener('abort', onAbort);
+
+    const collect = (stream: ToolOutputChunk['stream']) => (data: Buffer) => {
+      const text = data.toString('utf8');
+      const remaining = policy.maxOutputBytes - Buffer.byteLength(output[stream]);
+      if (remaining <= 0) {
+        truncated = true;
+        return;
+      }
+      const kept = Buffer.byteLength(text) > remaining
+        ? Buffer.from(text).subarray(0, remaining).toString('utf8')
+        : text;
+      if (kept.length < text.length) truncated = true;
+      output[stream] += kept;
+      options.onOutput?.({ stream, data: kept });
+    };
+
+    child.stdout.on('data', collect('stdout'));
+    child.stderr.on('data', collect('stderr'));
+
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+      reject(error);
+    });
+
+    child.on('close', (exitCode, signal) => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+      resolve({
+        exitCode,
+        signal,
+        stdout: output.stdout,
+        stderr: output.stderr,
+        truncated,
+        timedOut,
+        durationMs: Date.now() - startedAt,
+      });
+    });
+  });
+}
@@ -0,0 +1,104 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Attachment } from '@/lib/agent/AgentTypes';
+import { resolveInWorkspace } from '@/lib/tools/workspace';
+import { getMimeType } from '@/lib/utils/mimeTypes';
+
+/**
+ * ユーザーがアップロードしたファイルをセッションのワークスペースに保存するユーティリティ
+ * 保存したファイルはファイル操作ツールからワークスペース内のパスで参照できる
+ */
+
+// アップロードしたファイルの保存先（ワークスペースからの相対パス）
+export const UPLOAD_DIR = 'uploads';
+// 1ファイルの最大サイズ
+export const MAX_UPLOAD_SIZE = Number(process.env.AGENT_MAX_UPLOAD_BYTES) || 20 * 1024 * 1024;
+// 1回のリクエストでアップロードできるファイル数
+export const MAX_UPLOAD_FILES = 10;
+// 1回のリクエストの最大サイズ（本文はメモリに読み込むため、1ファイル分に multipart の区切り・フォーム項目の分を加えた大きさに抑える）
+// 複数のファイルの合計がこれを超える場合は、クライアントが1ファイルずつアップロードする
+export const MAX_UPLOAD_REQUEST_SIZE = MAX_UPLOAD_SIZE + 1024 * 1024;
+
+// アップロードを受け付ける拡張子（実行ファイルなどは受け付けない）
+const ALLOWED_EXTENSIONS = [
+  '.txt', '.md', '.csv', '.tsv', '.json', '.xml', '.yaml', '.yml', '.log', '.html', '.htm',
+  '.pdf', '.docx', '.xlsx', '.xls', '.pptx',
+  '.png', '.jpg', '.jpeg', '.gif', '.webp',
+  '.zip',
+];
+
+/**
+ * アップロードできないファイルであれば、その理由と HTTP ステータスを返す
+ */
+export function checkUpload(file: { name: string; size: number }): { status: number; error: string } | null {
+  if (!ALLOWED_EXTENSIONS.includes(path.extname(file.name).toLowerCase())) {
+    return { status: 415, error: `File type is not allowed: ${file.name}` };
+  }
+  if (file.size > MAX_UPLOAD_SIZE) {
+    return { status: 413, error: `File exceeds the maximum size of ${MAX_UPLOAD_SIZE} bytes: ${file.name}` };
+  }
+  return null;
+}
+
+/**
+ * アップロードされたファイルをワークスペースの uploads/ に保存する
+ * 同名のファイルがある場合は番号を付けて別名で保存する
+ */
+export async function saveUpload(sessionId: string, file: File): Promise<Attachment> {
+  const name = sanitizeFileName(file.name);
+  const ext = path.extname(name);
+  const base = name.slice(0, name.length - ext.length);
+  const content = Buffer.from(await file.arrayBuffer());
+
+  for (let n = 0; ; n++) {
+    const relativePath = `${UPLOAD_DIR}/${n === 0 ? name : `${base} (${n})${ext}`}`;
+    const target = await resolveInWorkspace(sessionId, relativePath);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+
+    try {
+      // 既存のファイルを上書きしないよう排他的に作成する
+      await fs.writeFile(target, content, { flag: 'wx' });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') continue;
+      throw error;
+    }
+
+    return toAttachment(sessionId, relativePath, content.length);
+  }
+}
+
+/**
+ * クライアントから送られた添付ファイルの一覧を検証し、アップロード済みのファイルだけを返す
+ */
+export function normalizeAttachments(sessionId: string, value: unknown): Attachment[] {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .map(item => (typeof item?.path === 'string' ? path.posix.normalize(item.path) : ''))
+    .filter(relativePath => relativePath.startsWith(`${UPLOAD_DIR}/`))
+    .map(relativePath => toAttachment(sessionId, relativePath));
+}
+
+/**
+ * ワークスペース内のパスから添付ファイルの情報を作成する
+ */
+function toAttachment(sessionId: string, relativePath: string, size?: number): Attachment {
+  return {
+    name: path.posix.basename(relativePath),
+    type: getMimeType(relativePath),
+    url: `/api/agent/upload?sessionId=${encodeURIComponent(sessionId)}&path=${encodeURIComponent(relativePath)}`,
+    path: relativePath,
+    ...(size !== undefined ? { size } : {}),
+  };
+}
+
+/**
+ * ファイル名からディレクトリ部分と使えない文字を取り除く
+ */
+function sanitizeFileName(name: string): string {
+  const sanitized = path.basename(name.replace(/\\/g, '/'))
+    .replace(/[\u0000-\u001f<>:"/\\|?*]/g, '_')
+    .replace(/^\.+/, '')
+    .trim();
+  return sanitized || 'upload';
+}
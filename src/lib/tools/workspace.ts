@@ -0,0 +1,118 @@
+import fg from 'fast-glob';
+import fs from 'fs/promises';
+import path from 'path';
+import { isValidSessionId } from '@/lib/utils/sessionId';
+
+/**
+ * セッションごとの作業ディレクトリ（ワークスペース）を管理するユーティリティ
+ */
+
+/**
+ * 全ワークスペースのルートディレクトリ
+ */
+export function getWorkspaceRoot(): string {
+  return path.resolve(process.env.AGENT_WORKSPACE_ROOT || path.join(process.cwd(), '.workspaces'));
+}
+
+/**
+ * セッションのワークスペースのパスを取得し、存在しなければ作成する
+ */
+export async function ensureWorkspace(sessionId: string): Promise<string> {
+  if (!isValidSessionId(sessionId)) {
+    throw new Error(`Invalid session ID for workspace: ${sessionId}`);
+  }
+
+  const dir = path.join(getWorkspaceRoot(), sessionId);
+  await fs.mkdir(dir, { recursive: true });
+  return dir;
+}
+
+/**
+ * ワークスペース内の相対パスを絶対パスに解決する
+ * ワークスペースの外を指すパス（../ や絶対パスによるトラバーサル）は拒否する
+ */
+export async function resolveInWorkspace(sessionId: string, relativePath: string = '.'): Promise<string> {
+  const workspace = await ensureWorkspace(sessionId);
+  const resolved = path.resolve(workspace, relativePath);
+
+  if (!isInside(workspace, resolved)) {
+    throw new Error(`Path escapes the session workspace: ${relativePath}`);
+  }
+
+  // シンボリックリンク経由で外部を指していないかも確認する
+  // 存在しないパスは、存在する最も近い祖先（リンク先のディレクトリに新規作成される場合を含む）で判定する
+  const real = await realpathOfNearestAncestor(resolved);
+  if (real === null || !isInside(await fs.realpath(workspace), real)) {
+    throw new Error(`Path escapes the session workspace: ${relativePath}`);
+  }
+
+  return resolved;
+}
+
+/**
+ * glob パターンがワークスペースの外を指していないか確認する（絶対パスと .. を含むパターンは拒否する）
+ */
+export function checkGlobPattern(pattern: string): void {
+  if (path.isAbsolute(pattern) || /^[a-zA-Z]:/.test(pattern) || pattern.split(/[\\/]/).includes('..')) {
+    throw new Error(`Pattern must be relative to the workspace and must not contain "..": ${pattern}`);
+  }
+}
+
+/**
+ * ワークスペース内のファイルごとの更新日時とサイズを取得する
+ * シェルコマンドなど、変更したファイルを報告しない操作の前後で比べて作成・変更されたファイルを検出する
+ * 一時ファイル（.tmp）・依存パッケージ・Git の管理ファイルは含めない
+ */
+export async function snapshotWorkspace(workspace: string): Promise<Map<string, string>> {
+  const entries = await fg('**/*', {
+    cwd: workspace,
+    dot: true,
+    onlyFiles: true,
+    stats: true,
+    followSymbolicLinks: false,
+    ignore: ['.tmp/**', '**/node_modules/**', '**/.git/**'],
+  });
+  return new Map(entries.map(entry => [entry.path, `${entry.stats?.mtimeMs}:${entry.stats?.size}`]));
+}
+
+/**
+ * 2つのスナップショットを比べ、作成・変更されたファイルのパスを返す
+ */
+export function findChangedFiles(before: Map<string, string>, after: Map<string, string>): string[] {
+  return [...after].filter(([file, version]) => before.get(file) !== version).map(([file]) => file);
+}
+
+/**
+ * 絶対パスをワークスペースからの相対パス（区切りは /）に変換する
+ */
+export function toWorkspacePath(workspace: string, absolutePath: string): string {
+  return path.relative(workspace, absolutePath).split(path.sep).join('/') || '.';
+}
+
+/**
+ * 存在する最も近い祖先の実パスに、存在しない残りの部分を繋げたパスを返す
+ * リンク先が存在しないシンボリックリンクを経由する場合は、書き込み先を判定できないため null を返す
+ */
+async function realpathOfNearestAncestor(target: string): Promise<string | null> {
+  const missing: string[] = [];
+  let current = target;
+
+  for (;;) {
+    try {
+      return path.join(await fs.realpath(current), ...missing);
+    } catch (error) {
+      const parent = path.dirname(current);
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT' || parent === current) throw error;
+      if (await fs.lstat(current).then(stat => stat.isSymbolicLink(), () => false)) return null;
+      missing.unshift(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+/**
+ * target が dir 自身またはその配下にあるか判定する
+ */
+function isInside(dir: string, target: string): boolean {
+  return target === dir || target.startsWith(dir + path.sep);
+}
@@ -0,0 +1,86 @@
+/**
+ * 中止シグナルと制限時間を扱うユーティリティ
+ */
+
+/**
+ * 制限時間の超過を表すエラー
+ */
+export class TimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * 指定時間待つ（中止シグナルを受けたら中止エラーで終える）
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? new Error('Aborted'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason ?? new Error('Aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// 制限時間付きのコントローラー
+export type TimeoutController = {
+  signal: AbortSignal;
+  pause: () => void;   // ユーザーの回答待ちなどの間、制限時間の計測を止める
+  resume: () => void;
+  dispose: () => void; // タイマーと親シグナルの購読を解除する
+};
+
+/**
+ * 親のシグナルの中止と制限時間の超過のどちらでも中止されるコントローラーを作成する
+ * timeoutMs が null の場合は制限時間なしで親の中止だけを伝える
+ */
+export function createTimeoutController(parent: AbortSignal | undefined, timeoutMs: number | null, message: string): TimeoutController {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(parent?.reason);
+  let remaining = timeoutMs;
+  let startedAt = Date.now();
+  let timer: NodeJS.Timeout | null = null;
+
+  const start = () => {
+    if (remaining === null || controller.signal.aborted) return;
+    startedAt = Date.now();
+    timer = setTimeout(() => controller.abort(new TimeoutError(message)), remaining);
+  };
+  const stop = () => {
+    if (!timer) return;
+    clearTimeout(timer);
+    timer = null;
+    if (remaining !== null) remaining = Math.max(0, remaining - (Date.now() - startedAt));
+  };
+
+  if (parent?.aborted) {
+    onAbort();
+  } else {
+    parent?.addEventListener('abort', onAbort, { once: true });
+  }
+  start();
+
+  return {
+    signal: controller.signal,
+    pause: stop,
+    resume: () => {
+      if (!timer) start();
+    },
+    dispose: () => {
+      stop();
+      parent?.removeEventListener('abort', onAbort);
+    },
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * JSON Patch（RFC 6902 の add・remove・replace）形式の差分を作成・適用するユーティリティ
+ * エージェントの状態を全体ではなく変更点だけ配信するために使用する
+ */
+
+// 差分の1操作（path は JSON Pointer）
+export type PatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown };
+
+/**
+ * before から after への差分を作成する
+ * 同じ参照の値は比較を省くため、変更されていない部分を共有する不変な更新で作られた値に向く
+ */
+export function createPatch(before: unknown, after: unknown, path = ''): PatchOperation[] {
+  if (before === after) return [];
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const operations: PatchOperation[] = [];
+    const common = Math.min(before.length, after.length);
+    for (let i = 0; i < common; i++) {
+      operations.push(...createPatch(before[i], after[i], `${path}/${i}`));
+    }
+    for (let i = common; i < after.length; i++) {
+      operations.push({ op: 'add', path: `${path}/${i}`, value: after[i] });
+    }
+    // 後ろから削除して、前の要素の位置がずれないようにする
+    for (let i = before.length - 1; i >= after.length; i--) {
+      operations.push({ op: 'remove', path: `${path}/${i}` });
+    }
+    return operations;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const operations: PatchOperation[] = [];
+    // JSON に含まれない undefined の値は存在しないキーとして扱う
+    for (const key of Object.keys(before)) {
+      if (before[key] !== undefined && after[key] === undefined) {
+        operations.push({ op: 'remove', path: `${path}/${escapeKey(key)}` });
+      }
+    }
+    for (const key of Object.keys(after)) {
+      if (after[key] === undefined) continue;
+      if (before[key] === undefined) {
+        operations.push({ op: 'add', path: `${path}/${escapeKey(key)}`, value: after[key] });
+      } else {
+        operations.push(...createPatch(before[key], after[key], `${path}/${escapeKey(key)}`));
+      }
+    }
+    return operations;
+  }
+
+  return [{ op: 'replace', path, value: after }];
+}
+
+/**
+ * 差分を適用した新しい値を返す（元の値は変更せず、変更した経路だけを複製する）
+ */
+export function applyPatch<T>(document: T, operations: PatchOperation[]): T {
+  return operations.reduce<any>((current, operation) => applyOperation(current, operation), document);
+}
+
+/**
+ * 1つの操作を適用する
+ */
+function applyOperation(document: any, operation: PatchOperation): any {
+  const keys = operation.path.split('/').slice(1).map(unescapeKey);
+  if (keys.length === 0) {
+    return operation.op === 'remove' ? undefined : operation.value;
+  }
+  return updateAt(document, keys, operation);
+}
+
+/**
+ * keys の位置の値を操作に従って更新した複製を返す
+ */
+function updateAt(node: any, keys: string[], operation: PatchOperation): any {
+  if (node === null || typeof node !== 'object') {
+    throw new Error(`Invalid patch path: ${operation.path}`);
+  }
+
+  const [key, ...rest] = keys;
+  const copy = Array.isArray(node) ? [...node] : { ...node };
+
+  if (rest.length > 0) {
+    (copy as any)[key] = updateAt((copy as any)[key], rest, operation);
+    return copy;
+  }
+
+  if (Array.isArray(copy)) {
+    const index = key === '-' ? copy.length : Number(key);
+    if (operation.op === 'add') {
+      copy.splice(index, 0, operation.value);
+    } else if (operation.op === 'remove') {
+      copy.splice(index, 1);
+    } else {
+      copy[index] = operation.value;
+    }
+  } else if (operation.op === 'remove') {
+    delete copy[key];
+  } else {
+    copy[key] = operation.value;
+  }
+  return copy;
+}
+
+/**
+ * 配列・null 以外のオブジェクトか
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * JSON Pointer のキーをエスケープする
+ */
+function escapeKey(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * JSON Pointer のキーのエスケープを戻す
+ */
+function unescapeKey(key: string): string {
+  return key.replace(/~1/g, '/').replace(/~0/g, '~');
+}
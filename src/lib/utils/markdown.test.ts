@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { parseInline, parseMarkdown } from '@/lib/utils/markdown';
+
+describe('parseMarkdown', () => {
+  it('parses headings, lists, code blocks and tables', () => {
+    const blocks = parseMarkdown([
+      '# 報告',
+      '',
+      '- 1つ目',
+      '- 2つ目',
+      '',
+      '```ts',
+      'const a = 1;',
+      '```',
+      '',
+      '| 名前 | 値 |',
+      '| --- | --- |',
+      '| a | 1 |',
+    ].join('\n'));
+
+    expect(blocks.map(block => block.type)).toEqual(['heading', 'list', 'code', 'table']);
+    expect(blocks[1]).toMatchObject({ ordered: false, items: [[{ text: '1つ目' }], [{ text: '2つ目' }]] });
+    expect(blocks[2]).toEqual({ type: 'code', language: 'ts', text: 'const a = 1;' });
+    expect(blocks[3]).toMatchObject({ header: [[{ text: '名前' }], [{ text: '値' }]], rows: [[[{ text: 'a' }], [{ text: '1' }]]] });
+  });
+
+  it('keeps embedded HTML as text', () => {
+    expect(parseMarkdown('<script>alert(1)</script>')).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', text: '<script>alert(1)</script>' }] },
+    ]);
+  });
+});
+
+describe('parseInline', () => {
+  it('parses emphasis, code and links', () => {
+    expect(parseInline('**強調** と `code` と [リンク](https://example.com)')).toEqual([
+      { type: 'strong', children: [{ type: 'text', text: '強調' }] },
+      { type: 'text', text: ' と ' },
+      { type: 'code', text: 'code' },
+      { type: 'text', text: ' と ' },
+      { type: 'link', href: 'https://example.com', children: [{ type: 'text', text: 'リンク' }] },
+    ]);
+  });
+
+  it('does not link unsafe URLs or emphasize inside words', () => {
+    expect(parseInline('[x](javascript:alert(1)) snake_case_name')).toEqual([
+      { type: 'text', text: '[x](javascript:alert(1)) snake_case_name' },
+    ]);
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Markdown をプレビュー表示するためのユーティリティ
+ * HTML を生成せず要素の構造に変換し、表示側で React の要素として描画する（埋め込まれた HTML はテキストとして扱う）
+ */
+
+// 行内の要素
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+// ブロック要素
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'code'; language: string; text: string }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+  | { type: 'quote'; children: MarkdownBlock[] }
+  | { type: 'table'; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'rule' };
+
+const FENCE = /^\s*(`{3,}|~{3,})\s*([\w+-]*)/;
+const HEADING = /^\s*(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+// リンク先として許可するスキーム（javascript: などは描画しない）
+const SAFE_LINK = /^(https?:|mailto:)/i;
+
+/**
+ * Markdown テキストをブロック要素の配列に変換する
+ */
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      // 閉じるフェンスがなければ末尾までをコードとする
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push({ type: 'code', language: fence[2], text: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i].match(QUOTE)![1]);
+        i++;
+      }
+      blocks.push({ type: 'quote', children: parseMarkdown(quoted.join('\n')) });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      const ordered = /\d/.test(item[1]);
+      const items: string[] = [];
+      while (i < lines.length) {
+        const next = lines[i].match(LIST_ITEM);
+        if (next && /\d/.test(next[1]) === ordered) {
+          items.push(next[2]);
+        } else if (!next && /^\s+\S/.test(lines[i])) {
+          // 字下げした行は直前の項目の続きとする（入れ子のリストも項目の続きとして表示する）
+          items[items.length - 1] += ` ${lines[i].trim()}`;
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({ type: 'list', ordered, items: items.map(parseInline) });
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1])) {
+      const header = splitTableRow(line).map(parseInline);
+      const rows: MarkdownInline[][][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+        rows.push(splitTableRow(lines[i]).map(parseInline));
+        i++;
+      }
+      blocks.push({ type: 'table', header, rows });
+      continue;
+    }
+
+    // 空行・他のブロックの始まりまでを1つの段落とする
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines, i)) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+}
+
+/**
+ * 行内の強調・コード・リンクを要素の配列に変換する
+ */
+export function parseInline(text: string): MarkdownInline[] {
+  const pattern = /`([^`]+)`|\*\*(.+?)\*\*|__(.+?)__|\*([^*\s](?:[^*]*[^*\s])?)\*|(?<!\w)_([^_\s](?:[^_]*[^_\s])?)_(?!\w)|\[([^\]]+)\]\(([^)\s]+)\)/g;
+  const nodes: MarkdownInline[] = [];
+  let last = 0;
+  // 隣り合うテキストは1つにまとめる
+  const pushText = (value: string) => {
+    const previous = nodes[nodes.length - 1];
+    if (previous?.type === 'text') {
+      previous.text += value;
+    } else {
+      nodes.push({ type: 'text', text: value });
+    }
+  };
+
+  for (const match of text.matchAll(pattern)) {
+    if (match.index > last) pushText(text.slice(last, match.index));
+    last = match.index + match[0].length;
+
+    const [source, code, strong, strongUnderscore, em, emUnderscore, label, href] = match;
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code });
+    } else if (strong !== undefined || strongUnderscore !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(strong ?? strongUnderscore) });
+    } else if (em !== undefined || emUnderscore !== undefined) {
+      nodes.push({ type: 'em', children: parseInline(em ?? emUnderscore) });
+    } else if (SAFE_LINK.test(href)) {
+      nodes.push({ type: 'link', href, children: parseInline(label) });
+    } else {
+      pushText(source);
+    }
+  }
+
+  if (last < text.length) pushText(text.slice(last));
+  return nodes;
+}
+
+/**
+ * 行が段落以外のブロックの始まりか判定する
+ */
+function startsBlock(lines: string[], i: number): boolean {
+  const line = lines[i];
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line)
+    || (line.includes('|') && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1]));
+}
+
+/**
+ * 表の行をセルに分ける（両端の | は取り除く）
+ */
+function splitTableRow(line: string): string[] {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+}
@@ -0,0 +1,76 @@
+/**
+ * ブラウザに保存するセッションの一覧
+ * 再読み込み後も同じセッションを使い続け、過去のセッションに切り替えられるよう localStorage に保持する
+ */
+
+import { isValidSessionId } from '@/lib/utils/sessionId';
+
+// 使用中のセッションIDと、過去のセッションの一覧の保存先のキー
+const CURRENT_SESSION_KEY = 'winmanus:session';
+const SAVED_SESSIONS_KEY = 'winmanus:sessions';
+// 保持する過去のセッションの最大数
+const MAX_SAVED_SESSIONS = 20;
+
+// 保存したセッション（title はセッションで最初に送信したタスク）
+export type SavedSession = {
+  id: string;
+  title: string;
+  updatedAt: number;
+};
+
+/**
+ * 使用中のセッションIDを取得する（保存されていなければ null）
+ */
+export function loadCurrentSessionId(): string | null {
+  try {
+    const sessionId = localStorage.getItem(CURRENT_SESSION_KEY);
+    return isValidSessionId(sessionId) ? sessionId : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 使用中のセッションIDを保存する
+ */
+export function saveCurrentSessionId(sessionId: string): void {
+  try {
+    localStorage.setItem(CURRENT_SESSION_KEY, sessionId);
+  } catch {
+    // 保存できない環境（プライベートモードなど）では再読み込みで新しいセッションになる
+  }
+}
+
+/**
+ * 過去のセッションを新しい順に取得する
+ */
+export function loadSavedSessions(): SavedSession[] {
+  try {
+    const sessions = JSON.parse(localStorage.getItem(SAVED_SESSIONS_KEY) || '[]');
+    if (!Array.isArray(sessions)) return [];
+    return sessions.filter((session): session is SavedSession =>
+      isValidSessionId(session?.id) && typeof session.title === 'string' && typeof session.updatedAt === 'number');
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * タスクを送信したセッションを一覧の先頭に記録し、更新後の一覧を返す
+ * タイトルは最初のタスクのまま変えない
+ */
+export function recordSavedSession(sessionId: string, task: string): SavedSession[] {
+  const sessions = loadSavedSessions();
+  const existing = sessions.find(session => session.id === sessionId);
+  const updated = [
+    { id: sessionId, title: existing?.title ?? task.slice(0, 50), updatedAt: Date.now() },
+    ...sessions.filter(session => session.id !== sessionId),
+  ].slice(0, MAX_SAVED_SESSIONS);
+
+  try {
+    localStorage.setItem(SAVED_SESSIONS_KEY, JSON.stringify(updated));
+  } catch {
+    // 保存できない環境では一覧を残さない
+  }
+  return updated;
+}
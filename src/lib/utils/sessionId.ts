@@ -0,0 +1,27 @@
+/**
+ * クライアントから受け取るセッションIDの検証
+ * セッションIDはワークスペース・成果物のディレクトリ名に使われるため、英数字・_・- のみを受け付ける
+ */
+
+import path from 'path';
+
+// セッションIDとして受け付ける形式
+const SESSION_ID_PATTERN = /^[\w-]+$/;
+
+/**
+ * セッションIDとして受け付ける形式か
+ */
+export function isValidSessionId(sessionId: unknown): sessionId is string {
+  return typeof sessionId === 'string' && SESSION_ID_PATTERN.test(sessionId);
+}
+
+/**
+ * ルート直下のセッションのディレクトリを取得する
+ * 不正なセッションID（.. など）でルートの外や直下以外を指す場合は null を返す
+ */
+export function getSessionDirectory(root: string, sessionId: string): string | null {
+  const resolvedRoot = path.resolve(root);
+  const dir = path.resolve(resolvedRoot, sessionId);
+  if (!isValidSessionId(sessionId) || path.dirname(dir) !== resolvedRoot) return null;
+  return dir;
+}
@@ -1,5 +1,6 @@
 /**
  * WebSocketクライアント用ユーティリティ
+ * WebSocket が使えない環境では Server-Sent Events にフォールバックする
  */
 
 import { WebSocketPayload } from '@/lib/agent/AgentTypes';
@@ -8,6 +9,7 @@ import { WebSocketPayload } from '@/lib/agent/AgentTypes';
 export type WebSocketState = {
   isConnected: boolean;
   error: string | null;
+  transport: 'websocket' | 'sse';
 };
 
 /**
@@ -16,6 +18,8 @@ export type WebSocketState = {
  */
 export class WebSocketManager {
   private socket: WebSocket | null = null;
+  private eventSource: EventSource | null = null;
+  private lastEventId: number | null = null;
   private messageListeners: ((payload: WebSocketPayload) => void)[] = [];
   private stateChangeListeners: ((state: WebSocketState) => void)[] = [];
   private reconnectAttempts = 0;
@@ -24,7 +28,8 @@ export class WebSocketManager {
   private sessionId: string;
   private state: WebSocketState = {
     isConnected: false,
-    error: null
+    error: null,
+    transport: 'websocket'
   };
 
   constructor(sessionId: string) {
@@ -35,15 +40,21 @@ export class WebSocketManager {
    * WebSocket接続を開始する
    */
   connect(): void {
+    if (this.state.transport === 'sse') {
+      this.connectEventSource();
+      return;
+    }
+
     if (this.socket && (this.socket.readyState === WebSocket.OPEN || this.socket.readyState === WebSocket.CONNECTING)) {
       return; // 既に接続中
     }
 
     try {
-      // WebSocketサーバーのURLを構築
+      // WebSocketサーバーのURLを構築（受信済みのイベントがあれば続きから受け取る）
       const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
       const host = window.location.host;
-      const url = `${protocol}//${host}/api/ws?sessionId=${this.sessionId}`;
+      const resume = this.lastEventId !== null ? `&lastEventId=${this.lastEventId}` : '';
+      const url = `${protocol}//${host}/api/ws?sessionId=${this.sessionId}${resume}`;
 
       this.socket = new WebSocket(url);
 
@@ -65,20 +76,28 @@ export class WebSocketManager {
    */
   disconnect(): void {
     if (this.socket) {
-      this.socket.close();
+      this.socket.close(1000);
       this.socket = null;
-      this.reconnectAttempts = 0;
-      this.updateState({
-        isConnected: false,
-        error: null
-      });
     }
+    if (this.eventSource) {
+      this.eventSource.close();
+      this.eventSource = null;
+    }
+    this.reconnectAttempts = 0;
+    this.updateState({
+      isConnected: false,
+      error: null
+    });
   }
 
   /**
    * メッセージを送信する
    */
   sendMessage(type: string, data: any): boolean {
+    if (this.state.transport === 'sse') {
+      return this.sendViaRest(type, data);
+    }
+
     if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
       console.error('WebSocket is not connected');
       return false;
@@ -93,6 +112,22 @@ export class WebSocketManager {
     }
   }
 
+  /**
+   * 状態全体を送り直させる（受信した差分の版が連続していない場合に使用する）
+   * SSE では再送位置を指定せずに接続し直し、接続時の状態全体を受け取る
+   */
+  requestSnapshot(): void {
+    if (this.state.transport === 'sse') {
+      this.eventSource?.close();
+      this.eventSource = null;
+      this.lastEventId = null;
+      this.connectEventSource();
+      return;
+    }
+
+    this.sendMessage('sync', null);
+  }
+
   /**
    * メッセージリスナーを追加する
    */
@@ -133,6 +168,9 @@ export class WebSocketManager {
   private handleMessage(event: MessageEvent): void {
     try {
       const payload = JSON.parse(event.data) as WebSocketPayload;
+      if (typeof payload.id === 'number') {
+        this.lastEventId = payload.id;
+      }
       // 全てのリスナーにメッセージを通知
       for (const listener of this.messageListeners) {
         listener(payload);
@@ -158,7 +196,67 @@ export class WebSocketManager {
       const delay = this.reconnectDelay * Math.pow(1.5, this.reconnectAttempts - 1);
       console.log(`Attempting to reconnect in ${delay}ms (attempt ${this.reconnectAttempts})`);
       setTimeout(() => this.connect(), delay);
+    } else if (event.code !== 1000) {
+      // 再接続を使い切ったら SSE に切り替える
+      console.log('WebSocket reconnect attempts exhausted, falling back to SSE');
+      this.socket = null;
+      this.updateState({ transport: 'sse' });
+      this.connectEventSource();
+    }
+  }
+
+  /**
+   * SSE ストリームに接続する（WebSocket のフォールバック）
+   * 切断時の再接続と Last-Event-ID による再送は EventSource が自動で行う
+   */
+  private connectEventSource(): void {
+    if (this.eventSource) return;
+
+    const resume = this.lastEventId !== null ? `&lastEventId=${this.lastEventId}` : '';
+    this.eventSource = new EventSource(`/api/agent/stream?sessionId=${this.sessionId}${resume}`);
+
+    this.eventSource.onopen = () => {
+      console.log('SSE connected');
+      this.updateState({
+        isConnected: true,
+        error: null
+      });
+    };
+    this.eventSource.onmessage = this.handleMessage.bind(this);
+    this.eventSource.onerror = () => {
+      this.updateState({
+        isConnected: false,
+        error: 'SSE connection error'
+      });
+    };
+  }
+
+  /**
+   * SSE 利用時に、WebSocket で送るはずだったメッセージを REST API で送信する
+   */
+  private sendViaRest(type: string, data: any): boolean {
+    const requests: Record<string, { method: string; body: any }> = {
+      'start-task': { method: 'POST', body: { sessionId: this.sessionId, task: data?.task, attachments: data?.attachments } },
+      'set-model': { method: 'PATCH', body: { sessionId: this.sessionId, modelName: data?.modelName } },
+      'pause': { method: 'POST', body: { sessionId: this.sessionId, action: 'pause' } },
+      'resume': { method: 'POST', body: { sessionId: this.sessionId, action: 'resume' } },
+      'cancel': { method: 'POST', body: { sessionId: this.sessionId, action: 'cancel' } },
+      'answer': { method: 'POST', body: { sessionId: this.sessionId, action: 'answer', ...data } },
+      'approval': { method: 'POST', body: { sessionId: this.sessionId, action: 'approval', ...data } },
+    };
+
+    const request = requests[type];
+    if (!request) {
+      console.error(`Message type "${type}" is not supported over SSE`);
+      return false;
     }
+
+    fetch('/api/agent', {
+      method: request.method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request.body),
+    }).catch(error => console.error('Error sending message via REST:', error));
+    return true;
   }
 
   /**
@@ -183,6 +281,13 @@ export class WebSocketManager {
     }
   }
 
+  /**
+   * 接続先のセッションIDを取得する
+   */
+  getSessionId(): string {
+    return this.sessionId;
+  }
+
   /**
    * 現在の接続状態を取得する
    */
@@ -196,8 +301,13 @@ let wsManager: WebSocketManager | null = null;
 
 /**
  * WebSocketマネージャーのインスタンスを取得する
+ * 別のセッションに切り替えた場合は、前のセッションの接続を閉じて作り直す
  */
 export function getWebSocketManager(sessionId: string): WebSocketManager {
+  if (wsManager && wsManager.getSessionId() !== sessionId) {
+    wsManager.disconnect();
+    wsManager = null;
+  }
   if (!wsManager) {
     wsManager = new WebSocketManager(sessionId);
   }
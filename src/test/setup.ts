@@ -0,0 +1,18 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * テストの共通設定
+ * 作業ディレクトリを汚さないよう、ログ・データベース・ワークスペース・成果物を一時ディレクトリに保存する
+ */
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'winmanus-test-'));
+
+process.env.AGENT_LOG_DIR = path.join(root, 'logs');
+process.env.AGENT_LOG_CONSOLE = 'false';
+process.env.AGENT_DB_PATH = path.join(root, 'agent.db');
+process.env.AGENT_WORKSPACE_ROOT = path.join(root, 'workspaces');
+process.env.AGENT_ARTIFACT_DIR = path.join(root, 'artifacts');
+process.env.AGENT_MODEL = 'mock:default';
+process.env.AGENT_PROGRESS_INTERVAL_MS = '0';